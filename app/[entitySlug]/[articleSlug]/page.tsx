@@ -4,7 +4,10 @@ import { PageShell } from "@/components/shared/page-shell";
 import { ArticlePage } from "@/components/pages/article-page";
 import { MDXRenderer } from "@/lib/mdx/renderer";
 import {
-  getManifest,
+  ManifestError,
+  getRouteIndex,
+  getSubject,
+  getTeacher,
   getCompiledMDX,
   getTableOfContents,
 } from "@/lib/content/loader";
@@ -17,21 +20,12 @@ interface Props {
 
 export async function generateStaticParams() {
   try {
-    const manifest = await getManifest();
+    const index = await getRouteIndex();
     const params: Array<{ entitySlug: string; articleSlug: string }> = [];
 
-    // Subject articles
-    for (const [entitySlug, subject] of Object.entries(manifest.subjects)) {
-      for (const articleSlug of Object.keys(subject.articles)) {
-        if (articleSlug !== "_front") {
-          params.push({ entitySlug, articleSlug });
-        }
-      }
-    }
-
-    // Teacher articles
-    for (const [entitySlug, teacher] of Object.entries(manifest.teachers)) {
-      for (const articleSlug of Object.keys(teacher.articles)) {
+    // Subject and teacher articles — the index lists their slugs
+    for (const [entitySlug, entry] of Object.entries(index.routeMap)) {
+      for (const articleSlug of entry.articles ?? []) {
         if (articleSlug !== "_front") {
           params.push({ entitySlug, articleSlug });
         }
@@ -39,7 +33,8 @@ export async function generateStaticParams() {
     }
 
     return params;
-  } catch {
+  } catch (err) {
+    if (err instanceof ManifestError) throw err;
     return [];
   }
 }
@@ -48,14 +43,15 @@ export default async function ArticleRoute({ params }: Props) {
   const { entitySlug, articleSlug } = await params;
   const locale = (await getLocale()) as Locale;
 
-  let manifest;
+  let index;
   try {
-    manifest = await getManifest();
-  } catch {
+    index = await getRouteIndex();
+  } catch (err) {
+    if (err instanceof ManifestError) throw err;
     notFound();
   }
 
-  const entityInfo = manifest.routeMap[entitySlug];
+  const entityInfo = index.routeMap[entitySlug];
   if (!entityInfo) notFound();
 
   // Get article from the correct entity type
@@ -67,7 +63,7 @@ export default async function ArticleRoute({ params }: Props) {
   let nextArticle: { slug: string; title: string } | null = null;
 
   if (entityInfo.type === "subject") {
-    const subject = manifest.subjects[entitySlug];
+    const subject = await getSubject(entitySlug);
     if (!subject) notFound();
     article = subject.articles[articleSlug];
     parentName = localized(subject.config.name, locale);
@@ -98,7 +94,7 @@ export default async function ArticleRoute({ params }: Props) {
       nextArticle = orderedArticles[currentIdx + 1];
     }
   } else if (entityInfo.type === "teacher") {
-    const teacher = manifest.teachers[entitySlug];
+    const teacher = await getTeacher(entitySlug);
     if (!teacher) notFound();
     article = teacher.articles[articleSlug];
     parentName = localized(teacher.config.name, locale);
@@ -156,11 +152,17 @@ export default async function ArticleRoute({ params }: Props) {
         locale={locale}
         isFallback={isFallback}
         fallbackLocale={isFallback ? effectiveLocale : undefined}
+        history={article.history?.[effectiveLocale]}
+        backlinks={article.backlinks?.[locale]}
+        prerequisites={article.prerequisites}
         siblingArticles={siblingArticles}
         prevArticle={prevArticle}
         nextArticle={nextArticle}
       >
-        <MDXRenderer compiledSource={compiledSource} />
+        <MDXRenderer
+          compiledSource={compiledSource}
+          assets={article.assets?.[effectiveLocale]}
+        />
       </ArticlePage>
     </PageShell>
   );
@@ -1,9 +1,18 @@
+import type { Metadata } from "next";
 import { notFound } from "next/navigation";
 import { getLocale } from "next-intl/server";
 import { PageShell } from "@/components/shared/page-shell";
 import { SubjectFront } from "@/components/pages/subject-front";
 import { TeacherFront } from "@/components/pages/teacher-front";
-import { getManifest, getCompiledMDX, getTableOfContents } from "@/lib/content/loader";
+import {
+  ManifestError,
+  getRouteIndex,
+  getSubject,
+  getTeacher,
+  getSystemArticle,
+  getCompiledMDX,
+  getTableOfContents,
+} from "@/lib/content/loader";
 import { localized, resolveLocale } from "@/lib/i18n/helpers";
 import { MDXRenderer } from "@/lib/mdx/renderer";
 import { C } from "@/lib/theme";
@@ -15,32 +24,63 @@ interface Props {
 
 export async function generateStaticParams() {
   try {
-    const manifest = await getManifest();
-    return Object.keys(manifest.routeMap).map((slug) => ({
+    const index = await getRouteIndex();
+    return Object.keys(index.routeMap).map((slug) => ({
       entitySlug: slug,
     }));
-  } catch {
+  } catch (err) {
+    // An incompatible build must fail loudly, not build an empty site
+    if (err instanceof ManifestError) throw err;
     // Fallback for dev without content build
     return [];
   }
 }
 
+// Subjects and teachers advertise their Atom feed (scripts/content/feeds.ts)
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { entitySlug } = await params;
+  const locale = (await getLocale()) as Locale;
+
+  let entity;
+  try {
+    entity = (await getSubject(entitySlug)) ?? (await getTeacher(entitySlug));
+  } catch (err) {
+    if (err instanceof ManifestError) throw err;
+    return {};
+  }
+  if (!entity) return {};
+
+  return {
+    alternates: {
+      types: {
+        "application/atom+xml": [
+          {
+            url: `/feeds/${locale}/${entitySlug}.xml`,
+            title: localized(entity.config.name, locale),
+          },
+        ],
+      },
+    },
+  };
+}
+
 export default async function EntityPage({ params }: Props) {
   const { entitySlug } = await params;
   const locale = (await getLocale()) as Locale;
 
-  let manifest;
+  let index;
   try {
-    manifest = await getManifest();
-  } catch {
+    index = await getRouteIndex();
+  } catch (err) {
+    if (err instanceof ManifestError) throw err;
     notFound();
   }
 
-  const entityInfo = manifest.routeMap[entitySlug];
+  const entityInfo = index.routeMap[entitySlug];
   if (!entityInfo) notFound();
 
   if (entityInfo.type === "subject") {
-    const subject = manifest.subjects[entitySlug];
+    const subject = await getSubject(entitySlug);
     if (!subject) notFound();
 
     // Load _front article MDX if it exists
@@ -50,7 +90,12 @@ export default async function EntityPage({ params }: Props) {
       try {
         const effectiveLocale = resolveLocale(frontArticle.locales, locale);
         const compiledSource = await getCompiledMDX(frontArticle.compiledPath, effectiveLocale);
-        frontMdxContent = <MDXRenderer compiledSource={compiledSource} />;
+        frontMdxContent = (
+          <MDXRenderer
+            compiledSource={compiledSource}
+            assets={frontArticle.assets?.[effectiveLocale]}
+          />
+        );
       } catch {
         // _front article not available, that's fine
       }
@@ -75,7 +120,7 @@ export default async function EntityPage({ params }: Props) {
   }
 
   if (entityInfo.type === "teacher") {
-    const teacher = manifest.teachers[entitySlug];
+    const teacher = await getTeacher(entitySlug);
     if (!teacher) notFound();
 
     return (
@@ -92,7 +137,7 @@ export default async function EntityPage({ params }: Props) {
   }
 
   if (entityInfo.type === "system-article") {
-    const sysArticle = manifest.systemArticles[entitySlug];
+    const sysArticle = await getSystemArticle(entitySlug);
     if (!sysArticle) notFound();
 
     const effectiveLocale = resolveLocale(sysArticle.locales, locale);
@@ -137,7 +182,10 @@ export default async function EntityPage({ params }: Props) {
           {/* Single divider — content follows directly */}
           <div className="prose-wiki">
             {compiledSource && (
-              <MDXRenderer compiledSource={compiledSource} />
+              <MDXRenderer
+                compiledSource={compiledSource}
+                assets={sysArticle.assets?.[effectiveLocale]}
+              />
             )}
           </div>
         </div>
@@ -3,8 +3,8 @@ import { HomePage } from "@/components/pages/home-page";
 import type { Locale } from "@/lib/i18n/config";
 
 async function getHomeData(locale: Locale) {
+  const { getManifest, ManifestError } = await import("@/lib/content/loader");
   try {
-    const { getManifest } = await import("@/lib/content/loader");
     const manifest = await getManifest();
 
     const subjects = Object.values(manifest.subjects).map((s) => ({
@@ -38,7 +38,9 @@ async function getHomeData(locale: Locale) {
       }));
 
     return { subjects, teachers, systemArticles, fromManifest: true };
-  } catch {
+  } catch (err) {
+    // Mock data stands in for a missing build, not an incompatible one
+    if (err instanceof ManifestError) throw err;
     // Fallback to mock data for dev
     const { subjects, teachers } = await import("@/lib/mock-data");
     return {
@@ -0,0 +1,83 @@
+import type { Metadata } from "next";
+import { getLocale } from "next-intl/server";
+import { SearchPage } from "@/components/pages/search-page";
+import {
+  appendFallbackResults,
+  collectFacets,
+  FALLBACK_MIN_RESULTS,
+  queryFromParams,
+  runQuery,
+  SEARCH_PAGE_SIZE,
+  type SearchFacets,
+} from "@/lib/search/query";
+import { fallbackLocales } from "@/lib/i18n/helpers";
+import type { SearchEntry } from "@/lib/content/types";
+import type { Locale } from "@/lib/i18n/config";
+
+interface Props {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export interface SearchPageData {
+  query: string;
+  page: number;
+  /** Results of `page` only — the client pages through its own index. */
+  results: SearchEntry[];
+  total: number;
+  facets: SearchFacets | null;
+}
+
+// Result lists are for people, not crawlers
+export const metadata: Metadata = {
+  robots: { index: false },
+};
+
+function toParams(searchParams: Record<string, string | string[] | undefined>) {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(searchParams)) {
+    for (const v of [value ?? []].flat()) params.append(key, v);
+  }
+  return params;
+}
+
+/**
+ * The same search the client runs, rendered on the server — what readers
+ * without JavaScript get, and what everyone sees until the index loads.
+ */
+async function getSearchData(locale: Locale, params: URLSearchParams): Promise<SearchPageData> {
+  const query = queryFromParams(params);
+  const page = Math.max(1, Number.parseInt(params.get("page") ?? "", 10) || 1);
+  const { getSearchEngine, ManifestError } = await import("@/lib/content/loader");
+  try {
+    const engine = await getSearchEngine(locale);
+    let results = runQuery(engine, query, Infinity);
+    // As SearchProvider does: other locales when this one comes up short
+    if (query && results.length < FALLBACK_MIN_RESULTS) {
+      const fallbacks = await Promise.all(
+        fallbackLocales(locale).map(async (other) => ({
+          locale: other,
+          results: runQuery(await getSearchEngine(other), query, Infinity),
+        }))
+      );
+      results = appendFallbackResults(results, fallbacks);
+    }
+    return {
+      query,
+      page,
+      results: results.slice((page - 1) * SEARCH_PAGE_SIZE, page * SEARCH_PAGE_SIZE),
+      total: results.length,
+      facets: collectFacets(engine.entries),
+    };
+  } catch (err) {
+    if (err instanceof ManifestError) throw err;
+    // No content build — the client shows its own results, if any
+    return { query, page, results: [], total: 0, facets: null };
+  }
+}
+
+export default async function Search({ searchParams }: Props) {
+  const locale = (await getLocale()) as Locale;
+  const data = await getSearchData(locale, toParams(await searchParams));
+
+  return <SearchPage data={data} locale={locale} />;
+}
@@ -5,8 +5,10 @@ import { motion } from "motion/react";
 import Link from "next/link";
 import { useTranslations } from "next-intl";
 import { C } from "@/lib/theme";
+import { languageTag } from "@/lib/i18n/helpers";
 import type { ArticleFrontmatterType } from "@/lib/schemas";
-import type { TocEntry } from "@/lib/content/types";
+import type { ArticleHistory, Backlink, PrerequisiteRef, TocEntry } from "@/lib/content/types";
+import { markRead, useReadArticles } from "@/lib/reading-progress";
 
 function loc(obj: Record<string, string>, locale: string): string {
   return obj[locale] || obj.en || obj.ru || "";
@@ -97,6 +99,93 @@ function ArticleSidebar({
   );
 }
 
+/* ── Read These First ── */
+function ReadFirst({
+  prerequisites,
+  locale,
+  t,
+}: {
+  prerequisites: PrerequisiteRef[];
+  locale: string;
+  t: (key: string) => string;
+}) {
+  const read = useReadArticles();
+  // Before hydration nothing is known to be read — list them all
+  const unmet = prerequisites.filter((p) => !read?.has(p.route));
+  if (unmet.length === 0) return null;
+
+  return (
+    <div className="border px-4 py-3 mb-8" style={{ borderColor: C.borderLight }}>
+      <div
+        className="text-[10px] uppercase tracking-[0.2em] mb-2 font-extrabold"
+        style={{ color: C.textMuted }}
+      >
+        {t("readFirst")}
+      </div>
+      <ol className="space-y-1">
+        {unmet.map((p) => (
+          <li key={p.route} className="text-[12px] uppercase">
+            <Link
+              href={p.route}
+              className="hover:underline"
+              style={{ color: p.direct ? C.text : C.textMuted, fontWeight: p.direct ? 600 : 400 }}
+            >
+              {loc(p.title, locale)}
+            </Link>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
+
+/* ── Backlinks ── */
+function ArticleBacklinks({
+  backlinks,
+  title,
+  t,
+}: {
+  backlinks: Backlink[];
+  /** This article's title. */
+  title: string;
+  t: (key: string) => string;
+}) {
+  if (backlinks.length === 0) return null;
+
+  return (
+    <section className="mt-12 pt-6" style={{ borderTop: `1px solid ${C.borderLight}` }}>
+      <div
+        className="text-[10px] uppercase tracking-[0.2em] mb-3 font-extrabold"
+        style={{ color: C.textMuted }}
+      >
+        {t("linkedFrom")}
+      </div>
+      <ul className="grid grid-cols-1 md:grid-cols-2 gap-2">
+        {backlinks.map((b) => {
+          // Link text that just repeats this article's title adds nothing
+          const anchors = b.anchors.filter((a) => a.toLowerCase() !== title.toLowerCase());
+          return (
+            <li key={b.route}>
+              <Link
+                href={b.route}
+                className="block border px-4 py-3 group transition-colors"
+                style={{ borderColor: C.borderLight }}
+              >
+                <div className="text-sm font-bold uppercase group-hover:underline">{b.title}</div>
+                {anchors.length > 0 && (
+                  <div className="text-[11px] mt-1 truncate" style={{ color: C.textMuted }}>
+                    {anchors.map((a) => `“${a}”`).join(", ")}
+                  </div>
+                )}
+              </Link>
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+}
+
 /* ── Prev / Next Navigation ── */
 function ArticleNavigation({
   prev,
@@ -169,6 +258,11 @@ interface ArticlePageProps {
   locale: string;
   isFallback?: boolean;
   fallbackLocale?: string;
+  history?: ArticleHistory;
+  /** Articles linking here, as seen in the reader's locale. */
+  backlinks?: Backlink[];
+  /** Direct and inherited prerequisites, in reading order. */
+  prerequisites?: PrerequisiteRef[];
   children: React.ReactNode; // MDX rendered content
   // Navigation data
   siblingArticles?: Array<{ slug: string; title: string; category?: string }>;
@@ -186,6 +280,9 @@ export function ArticlePage({
   locale,
   isFallback,
   fallbackLocale,
+  history,
+  backlinks = [],
+  prerequisites = [],
   children,
   siblingArticles = [],
   prevArticle,
@@ -198,6 +295,10 @@ export function ArticlePage({
 
   const title = loc(frontmatter.title, locale);
 
+  useEffect(() => {
+    markRead(`/${entitySlug}/${articleSlug}`);
+  }, [entitySlug, articleSlug]);
+
   /* Hide duplicate first heading if it matches the article title */
   useEffect(() => {
     const el = articleRef.current;
@@ -279,8 +380,28 @@ export function ArticlePage({
         <h1 className="text-3xl md:text-5xl font-bold leading-tight tracking-tighter uppercase">
           {title}
         </h1>
+
+        {history && (
+          <p className="mt-3 text-[11px] uppercase tracking-wider" style={{ color: C.textMuted }}>
+            {t("lastEdited", {
+              date: new Date(history.lastModified).toLocaleDateString(languageTag(locale), {
+                day: "2-digit",
+                month: "short",
+                year: "numeric",
+              }),
+            })}
+            {history.contributors.length > 0 && (
+              <>
+                {" · "}
+                {t("contributors")}: {history.contributors.join(", ")}
+              </>
+            )}
+          </p>
+        )}
       </motion.div>
 
+      <ReadFirst prerequisites={prerequisites} locale={locale} t={t} />
+
       {/* ── Two-column layout with sidebar ── */}
       <div className="grid grid-cols-1 lg:grid-cols-[200px_1fr_200px] gap-8">
         {/* Left: Article list in subject */}
@@ -334,6 +455,8 @@ export function ArticlePage({
         </aside>
       </div>
 
+      <ArticleBacklinks backlinks={backlinks} title={title} t={t} />
+
       {/* Prev / Next Navigation */}
       <ArticleNavigation
         prev={prevArticle}
@@ -0,0 +1,237 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { useTranslations } from "next-intl";
+import { C } from "@/lib/theme";
+import { PageShell } from "@/components/shared/page-shell";
+import {
+  useSearch,
+  useSearchResults,
+} from "@/components/search/search-provider";
+import { recordSearch } from "@/components/search/search-history";
+import {
+  GROUP_LABELS,
+  LocaleTag,
+  Snippet,
+  TYPE_COLORS,
+  TYPE_LABELS,
+} from "@/components/search/search-result";
+import { foldText } from "@/lib/search/normalize";
+import {
+  paramsFromQuery,
+  parseQuery,
+  queryFromParams,
+  searchHref,
+  toggleFilter,
+  SEARCH_PAGE_SIZE,
+  type FilterKey,
+} from "@/lib/search/query";
+import type { SearchPageData } from "@/app/search/page";
+
+/* ── Filter chip — a link, so filters work without JavaScript ── */
+function FilterLink({
+  href,
+  label,
+  active,
+}: {
+  href: string;
+  label: string;
+  active: boolean;
+}) {
+  return (
+    <Link
+      href={href}
+      scroll={false}
+      className="px-2 py-1 text-[10px] font-bold uppercase tracking-wider border transition-colors"
+      style={{
+        borderColor: active ? C.headerBg : C.borderLight,
+        backgroundColor: active ? C.headerBg : "transparent",
+        color: active ? C.headerText : C.textMuted,
+      }}
+    >
+      {label}
+    </Link>
+  );
+}
+
+interface SearchPageProps {
+  data: SearchPageData;
+  locale: string;
+}
+
+export function SearchPage({ data, locale }: SearchPageProps) {
+  const t = useTranslations("common");
+  const tDifficulty = useTranslations("difficulty");
+  const { facets: indexFacets, failed } = useSearch();
+
+  // The URL is the source of truth; the input runs ahead of it while typing
+  const params = useSearchParams();
+  const query = queryFromParams(params);
+  const page = Math.max(1, Number.parseInt(params.get("page") ?? "", 10) || 1);
+  const [input, setInput] = useState(query);
+  const [inputQuery, setInputQuery] = useState(query);
+  if (query !== inputQuery) {
+    // Navigated by a chip, a page link or the back button
+    setInputQuery(query);
+    setInput(query);
+  }
+
+  const onInput = (value: string) => {
+    setInput(value);
+    setInputQuery(queryFromParams(paramsFromQuery(value)));
+    window.history.replaceState(null, "", searchHref(value));
+  };
+
+  // Until the worker answers, or if it can't, show what the server found
+  // for this URL
+  const { results: answered, done } = useSearchResults(query, Infinity);
+  const all = failed ? null : answered;
+  const serverMatches = data.query === query && data.page === page;
+  const total = all ? all.length : serverMatches ? data.total : 0;
+  const results = all
+    ? all.slice((page - 1) * SEARCH_PAGE_SIZE, page * SEARCH_PAGE_SIZE)
+    : serverMatches
+      ? data.results
+      : [];
+  const pages = Math.ceil(total / SEARCH_PAGE_SIZE);
+
+  const facets = indexFacets ?? data.facets;
+  const { filters } = parseQuery(query);
+  const chip = (key: FilterKey, value: string | number, label: string) => (
+    <FilterLink
+      key={`${key}:${value}`}
+      href={searchHref(toggleFilter(query, key, String(value)))}
+      label={label}
+      active={!!filters[key]?.includes(foldText(String(value)))}
+    />
+  );
+
+  return (
+    <PageShell
+      breadcrumbs={[{ label: t("home"), href: "/" }, { label: t("search") }]}
+      locale={locale}
+    >
+      {/* ── HEADER ── */}
+      <section className="border-b" style={{ borderColor: C.borderLight }}>
+        <div className="max-w-4xl mx-auto px-4 py-10 md:py-14">
+          <h1 className="text-4xl md:text-6xl font-bold leading-none tracking-tighter uppercase mb-6">
+            {t("search").toUpperCase()}
+          </h1>
+
+          {/* A plain GET form — submits to this page without JavaScript */}
+          <form
+            action="/search"
+            method="get"
+            onSubmit={(e) => e.preventDefault()}
+            className="flex items-center gap-3 px-4 py-3 border"
+            style={{ borderColor: C.borderLight, backgroundColor: C.bgWhite }}
+          >
+            <span className="text-base" style={{ color: C.textMuted }}>&gt;</span>
+            <input
+              name="q"
+              type="search"
+              autoFocus
+              value={input}
+              onChange={(e) => onInput(e.target.value)}
+              placeholder={t("searchPlaceholder")}
+              className="flex-1 bg-transparent text-base outline-none placeholder:opacity-30"
+              style={{ color: C.text }}
+            />
+            <span className="text-[11px] shrink-0" style={{ color: C.textMuted }}>
+              {query && `${total} ${t("results")}`}
+            </span>
+          </form>
+
+          {facets && (
+            <div className="flex flex-wrap gap-1.5 mt-3">
+              {facets.types.map((type) => chip("type", type, t(GROUP_LABELS[type])))}
+              {facets.subjects.map((s) => chip("in", s.slug, s.title))}
+              {facets.difficulties.map((d) => chip("difficulty", d, tDifficulty(d)))}
+              {facets.semesters.map((n) =>
+                chip("semester", n, t("semesterNumber", { number: n }))
+              )}
+            </div>
+          )}
+        </div>
+      </section>
+
+      {/* ── RESULTS ── */}
+      <div className="max-w-4xl mx-auto px-4 py-8">
+        {!query ? (
+          <p className="text-sm uppercase" style={{ color: C.textMuted }}>
+            {t("typeToSearch")}
+          </p>
+        ) : results.length === 0 ? (
+          <p className="py-10 text-center text-base uppercase" style={{ color: C.textMuted }}>
+            {serverMatches || (done && !failed)
+              ? t("noResults")
+              : failed
+                ? t("searchUnavailable")
+                : t("loading")}
+          </p>
+        ) : (
+          <ol className="border-t" style={{ borderColor: C.borderLight }}>
+            {results.map((entry) => (
+              <li key={entry.id} className="border-b" style={{ borderColor: C.borderLight }}>
+                <Link
+                  href={entry.route}
+                  onClick={() => recordSearch(locale, query, entry)}
+                  className="flex items-start gap-3 py-4 group"
+                >
+                  <span
+                    className="text-[10px] uppercase tracking-wider shrink-0 mt-1 font-bold"
+                    style={{ color: TYPE_COLORS[entry.type] || C.accent }}
+                  >
+                    [{TYPE_LABELS[entry.type] || "???"}]
+                  </span>
+                  <div className="min-w-0" lang={entry.locale}>
+                    <p className="text-base font-medium group-hover:underline">
+                      {entry.title}
+                      {entry.heading && (
+                        <span className="opacity-60"> › {entry.heading}</span>
+                      )}
+                      {entry.locale && <LocaleTag locale={entry.locale} />}
+                    </p>
+                    {entry.text ? (
+                      <Snippet text={entry.text} query={query} />
+                    ) : (
+                      entry.description && (
+                        <p className="text-[12px] mt-1 opacity-70">{entry.description}</p>
+                      )
+                    )}
+                    <p className="text-[12px] opacity-40 mt-0.5">{entry.route}</p>
+                  </div>
+                </Link>
+              </li>
+            ))}
+          </ol>
+        )}
+
+        {/* ── PAGINATION ── */}
+        {pages > 1 && (
+          <nav className="flex items-center justify-between mt-8 text-[11px] font-bold uppercase tracking-wider">
+            {page > 1 ? (
+              <Link href={searchHref(query, page - 1)} style={{ color: C.accent }}>
+                {t("previous")}
+              </Link>
+            ) : (
+              <span />
+            )}
+            <span style={{ color: C.textMuted }}>
+              {t("pageOf", { page, pages })}
+            </span>
+            {page < pages ? (
+              <Link href={searchHref(query, page + 1)} style={{ color: C.accent }}>
+                {t("next")}
+              </Link>
+            ) : (
+              <span />
+            )}
+          </nav>
+        )}
+      </div>
+    </PageShell>
+  );
+}
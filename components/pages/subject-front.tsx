@@ -11,6 +11,138 @@ function loc(obj: Record<string, string>, locale: string): string {
   return obj[locale] || obj.en || obj.ru || "";
 }
 
+/* ── Prerequisite Map ── */
+const MAP = { colWidth: 220, nodeWidth: 180, nodeHeight: 40, rowHeight: 56, pad: 8, maxChars: 24 };
+
+interface MapNode {
+  route: string;
+  title: string;
+  /** Longest chain of prerequisites leading to it. */
+  depth: number;
+  /** Prerequisite from another subject or teacher. */
+  external: boolean;
+}
+
+/**
+ * Layered drawing of the direct prerequisites between a subject's
+ * articles, left to right. Prerequisites elsewhere form the first column.
+ */
+function PrerequisiteMap({
+  subject,
+  locale,
+  accent,
+}: {
+  subject: SubjectManifest;
+  locale: Locale;
+  accent: string;
+}) {
+  const slug = subject.config.slug;
+  const nodes = new Map<string, MapNode>();
+  const edges: Array<[from: string, to: string]> = [];
+
+  // readingOrder puts every article after its prerequisites, so depths
+  // are final by the time a node is reached
+  for (const articleSlug of subject.readingOrder) {
+    const route = `/${slug}/${articleSlug}`;
+    const direct = subject.articles[articleSlug]?.prerequisites?.filter((p) => p.direct) ?? [];
+    let depth = 0;
+    for (const p of direct) {
+      if (!nodes.has(p.route)) {
+        nodes.set(p.route, { route: p.route, title: loc(p.title, locale), depth: 0, external: true });
+      }
+      depth = Math.max(depth, nodes.get(p.route)!.depth + 1);
+      edges.push([p.route, route]);
+    }
+    const title = loc(subject.articles[articleSlug].frontmatter.title, locale);
+    nodes.set(route, { route, title, depth, external: false });
+  }
+
+  // Articles outside every chain would only be clutter
+  const linked = new Set(edges.flat());
+  const shown = [...nodes.values()].filter((n) => linked.has(n.route));
+  if (shown.length === 0) return null;
+
+  const columns: MapNode[][] = [];
+  for (const node of shown) (columns[node.depth] ??= []).push(node);
+  const position = new Map<string, { x: number; y: number }>();
+  columns.forEach((column, depth) =>
+    column.forEach((node, row) =>
+      position.set(node.route, { x: MAP.pad + depth * MAP.colWidth, y: MAP.pad + row * MAP.rowHeight })
+    )
+  );
+
+  const width = MAP.pad * 2 + (columns.length - 1) * MAP.colWidth + MAP.nodeWidth;
+  const height =
+    MAP.pad * 2 + (Math.max(...columns.map((c) => c.length)) - 1) * MAP.rowHeight + MAP.nodeHeight;
+  const markerId = `prereq-arrow-${slug}`;
+
+  return (
+    <div className="overflow-x-auto">
+      <svg
+        viewBox={`0 0 ${width} ${height}`}
+        width={width}
+        height={height}
+        className="block select-none"
+        role="img"
+        aria-label={shown.map((n) => n.title).join(", ")}
+      >
+        <defs>
+          <marker id={markerId} viewBox="0 0 8 8" refX="8" refY="4" markerWidth="8" markerHeight="8" orient="auto">
+            <path d="M0,0 L8,4 L0,8 z" fill={accent} />
+          </marker>
+        </defs>
+        {edges.map(([from, to]) => {
+          const a = position.get(from)!;
+          const b = position.get(to)!;
+          const x1 = a.x + MAP.nodeWidth;
+          const y1 = a.y + MAP.nodeHeight / 2;
+          const x2 = b.x;
+          const y2 = b.y + MAP.nodeHeight / 2;
+          const bend = (x2 - x1) / 2;
+          return (
+            <path
+              key={`${from}→${to}`}
+              d={`M${x1},${y1} C${x1 + bend},${y1} ${x2 - bend},${y2} ${x2},${y2}`}
+              fill="none"
+              stroke={accent}
+              strokeOpacity={0.6}
+              markerEnd={`url(#${markerId})`}
+            />
+          );
+        })}
+        {shown.map((node) => {
+          const { x, y } = position.get(node.route)!;
+          const label =
+            node.title.length > MAP.maxChars ? `${node.title.slice(0, MAP.maxChars - 1)}…` : node.title;
+          return (
+            <Link key={node.route} href={node.route} className="group">
+              <title>{node.title}</title>
+              <rect
+                x={x}
+                y={y}
+                width={MAP.nodeWidth}
+                height={MAP.nodeHeight}
+                fill={C.bg}
+                stroke={node.external ? C.borderLight : accent}
+                strokeDasharray={node.external ? "4 3" : undefined}
+              />
+              <text
+                x={x + 10}
+                y={y + MAP.nodeHeight / 2}
+                dominantBaseline="central"
+                className="text-[11px] uppercase group-hover:underline"
+                fill={node.external ? C.textMuted : C.text}
+              >
+                {label}
+              </text>
+            </Link>
+          );
+        })}
+      </svg>
+    </div>
+  );
+}
+
 interface SubjectFrontProps {
   subject: SubjectManifest;
   locale: Locale;
@@ -207,6 +339,21 @@ export function SubjectFront({ subject, locale, children }: SubjectFrontProps) {
         </div>
       </section>
 
+      {/* ── PREREQUISITE MAP ── */}
+      {subject.readingOrder.some((s) => subject.articles[s]?.prerequisites?.some((p) => p.direct)) && (
+        <section className="border-b" style={{ borderColor: C.borderLight }}>
+          <div className="max-w-7xl mx-auto px-4 py-12">
+            <div
+              className="text-[11px] font-bold uppercase tracking-wider mb-8"
+              style={{ color: theme.accent }}
+            >
+              {tEntity("prerequisiteMap")}
+            </div>
+            <PrerequisiteMap subject={subject} locale={locale} accent={theme.accent} />
+          </div>
+        </section>
+      )}
+
       {/* ── FACULTY ── */}
       {subject.resolvedTeachers.length > 0 && (
         <section>
@@ -1,6 +1,7 @@
 "use client";
 
 import { motion } from "motion/react";
+import Image from "next/image";
 import Link from "next/link";
 import { useTranslations } from "next-intl";
 import { C, getSubjectTheme } from "@/lib/theme";
@@ -93,13 +94,26 @@ export function TeacherFront({ teacher, locale }: TeacherFrontProps) {
 
             <div className="flex items-start gap-6 mb-6">
               <div
-                className="w-20 h-20 md:w-24 md:h-24 shrink-0 border flex items-center justify-center text-2xl md:text-3xl font-bold"
+                className="w-20 h-20 md:w-24 md:h-24 shrink-0 border flex items-center justify-center text-2xl md:text-3xl font-bold overflow-hidden"
                 style={{ borderColor: C.borderLight }}
               >
-                {loc(config.name, locale)
-                  .split(" ")
-                  .map((n) => n[0])
-                  .join("")}
+                {teacher.photo ? (
+                  <Image
+                    src={teacher.photo.src}
+                    alt={loc(config.name, locale)}
+                    width={teacher.photo.width ?? 96}
+                    height={teacher.photo.height ?? 96}
+                    // A photo URL from the config skips the asset pipeline,
+                    // and the image optimizer only serves allowed hosts
+                    unoptimized={!teacher.photo.src.startsWith("/")}
+                    className="w-full h-full object-cover"
+                  />
+                ) : (
+                  loc(config.name, locale)
+                    .split(" ")
+                    .map((n) => n[0])
+                    .join("")
+                )}
               </div>
               <div>
                 <h1 className="text-4xl md:text-6xl font-bold leading-none tracking-tighter uppercase">
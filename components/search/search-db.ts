@@ -0,0 +1,87 @@
+/**
+ * The `wikipefia-search` IndexedDB database: the index cache, used by the
+ * search worker, and the search history, used by the dialog. Both are
+ * optional, so every operation fails silently.
+ */
+
+const DB_NAME = "wikipefia-search";
+const DB_VERSION = 2;
+
+export const INDEX_STORE = "indexes";
+/** Added in version 2. */
+export const HISTORY_STORE = "history";
+
+let connection: Promise<IDBDatabase> | null = null;
+
+/** The shared connection, opened on first use. */
+function openDB(): Promise<IDBDatabase> {
+  if (connection) return connection;
+  connection = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const db = request.result;
+      // Don't hold up another tab that upgrades the database; reopen
+      // on next use. onclose covers the browser closing it for us
+      db.onversionchange = () => {
+        db.close();
+        connection = null;
+      };
+      db.onclose = () => {
+        connection = null;
+      };
+      resolve(db);
+    };
+    request.onupgradeneeded = () => {
+      for (const store of [INDEX_STORE, HISTORY_STORE]) {
+        if (!request.result.objectStoreNames.contains(store)) {
+          request.result.createObjectStore(store);
+        }
+      }
+    };
+  });
+  // Don't remember a failed open — try again next time
+  connection.catch(() => {
+    connection = null;
+  });
+  return connection;
+}
+
+/** Run one request against `store`; null if anything fails. */
+async function withStore<T>(
+  store: string,
+  mode: IDBTransactionMode,
+  run: (objectStore: IDBObjectStore) => IDBRequest<T>
+): Promise<T | null> {
+  try {
+    const db = await openDB();
+    // Awaited, so a throw from transaction() is caught below
+    return await new Promise((resolve) => {
+      const tx = db.transaction(store, mode);
+      const request = run(tx.objectStore(store));
+      tx.oncomplete = () => resolve(request.result ?? null);
+      tx.onerror = () => resolve(null);
+      // Aborts (e.g. over quota) don't always fire onerror first
+      tx.onabort = () => resolve(null);
+    });
+  } catch {
+    return null;
+  }
+}
+
+export function idbGet<T>(store: string, key: string): Promise<T | null> {
+  return withStore(store, "readonly", (s) => s.get(key));
+}
+
+export function idbGetAll<T>(store: string): Promise<T[]> {
+  return withStore<T[]>(store, "readonly", (s) => s.getAll()).then((all) => all ?? []);
+}
+
+export async function idbSet(store: string, key: string, value: unknown): Promise<void> {
+  await withStore(store, "readwrite", (s) => s.put(value, key));
+}
+
+/** Delete every record whose key falls in `range`. */
+export async function idbDeleteRange(store: string, range: IDBKeyRange): Promise<void> {
+  await withStore(store, "readwrite", (s) => s.delete(range));
+}
@@ -1,40 +1,88 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import { motion, AnimatePresence } from "motion/react";
 import Link from "next/link";
-import { useTranslations } from "next-intl";
-import { useSearch } from "./search-provider";
+import { useLocale, useTranslations } from "next-intl";
+import { useSearch, useSearchResults } from "./search-provider";
+import { recordSearch, useSearchSuggestions, type VisitedPage } from "./search-history";
+import { GROUP_LABELS, LocaleTag, Snippet, TYPE_COLORS, TYPE_LABELS } from "./search-result";
 import { C } from "@/lib/theme";
+import { foldText } from "@/lib/search/normalize";
+import {
+  parseQuery,
+  searchHref,
+  toggleFilter,
+  TYPE_GROUPS,
+  type FilterKey,
+} from "@/lib/search/query";
 
 interface SearchDialogProps {
   open: boolean;
   onClose: () => void;
 }
 
-const TYPE_LABELS: Record<string, string> = {
-  subject: "SUBJ",
-  teacher: "TCHR",
-  "subject-article": "ART",
-  "teacher-article": "ART",
-  "system-article": "SYS",
-};
-
-const TYPE_COLORS: Record<string, string> = {
-  subject: "#6366F1",
-  teacher: "#059669",
-  "subject-article": "#D97706",
-  "teacher-article": "#D97706",
-  "system-article": "#2563EB",
-};
+/** Results grouped by type; groups in the order of their best result. */
+function groupResults<E extends { type: string }>(results: E[]) {
+  const groups = new Map<string, E[]>();
+  for (const entry of results) {
+    const group = TYPE_GROUPS[entry.type] ?? entry.type;
+    groups.set(group, [...(groups.get(group) ?? []), entry]);
+  }
+  return [...groups].map(([group, entries]) => ({ group, entries }));
+}
+
+function FilterChip({
+  label,
+  active,
+  onClick,
+}: {
+  label: string;
+  active: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      // Keep focus in the input, so arrow keys keep working
+      onMouseDown={(e) => e.preventDefault()}
+      className="px-2 py-1 text-[10px] font-bold uppercase tracking-wider border transition-colors cursor-pointer"
+      style={{
+        borderColor: active ? C.headerBg : C.borderLight,
+        backgroundColor: active ? C.headerBg : "transparent",
+        color: active ? C.headerText : C.textMuted,
+      }}
+    >
+      {label}
+    </button>
+  );
+}
 
 export function SearchDialog({ open, onClose }: SearchDialogProps) {
-  const { search, isReady } = useSearch();
+  const { facets, isReady, failed } = useSearch();
   const [query, setQuery] = useState("");
   const [selectedIdx, setSelectedIdx] = useState(0);
   const t = useTranslations("common");
+  const tDifficulty = useTranslations("difficulty");
+  const locale = useLocale();
 
-  const results = query.trim() ? search(query) : [];
+  // An empty query shows the reader's history instead
+  const empty = !query.trim();
+  const { suggestions, clear: clearHistory } = useSearchSuggestions(locale, open && empty);
+
+  const { filters } = parseQuery(query);
+  const { results: found } = useSearchResults(query);
+  const groups = useMemo(() => groupResults(found ?? []), [found]);
+  const results = useMemo(() => groups.flatMap((g) => g.entries), [groups]);
+
+  const chip = (key: FilterKey, value: string | number, label: string) => (
+    <FilterChip
+      key={`${key}:${value}`}
+      label={label}
+      active={!!filters[key]?.includes(foldText(String(value)))}
+      onClick={() => setQuery(toggleFilter(query, key, String(value)))}
+    />
+  );
 
   useEffect(() => {
     setSelectedIdx(0);
@@ -44,18 +92,32 @@ export function SearchDialog({ open, onClose }: SearchDialogProps) {
     if (!open) setQuery("");
   }, [open]);
 
+  // Recorded before leaving — a full page load would cut the write short
+  const openPage = useCallback(
+    (page: VisitedPage) => {
+      recordSearch(locale, query, page).finally(() => {
+        window.location.href = page.route;
+      });
+      onClose();
+    },
+    [locale, query, onClose]
+  );
+
   const handleKeyDown = useCallback(
     (e: React.KeyboardEvent) => {
+      const count = empty ? suggestions.length : results.length;
       if (e.key === "ArrowDown")
-        setSelectedIdx((i) => Math.min(i + 1, results.length - 1));
+        setSelectedIdx((i) => Math.min(i + 1, count - 1));
       if (e.key === "ArrowUp") setSelectedIdx((i) => Math.max(i - 1, 0));
-      if (e.key === "Enter" && results[selectedIdx]) {
-        window.location.href = results[selectedIdx].route;
-        onClose();
+      if (e.key === "Enter") {
+        const suggestion = empty ? suggestions[selectedIdx] : undefined;
+        if (suggestion?.kind === "query") setQuery(suggestion.query);
+        if (suggestion?.kind === "page") openPage(suggestion.page);
+        if (!empty && results[selectedIdx]) openPage(results[selectedIdx]);
       }
       if (e.key === "Escape") onClose();
     },
-    [results, selectedIdx, onClose]
+    [empty, suggestions, results, selectedIdx, openPage, onClose]
   );
 
   return (
@@ -118,10 +180,27 @@ export function SearchDialog({ open, onClose }: SearchDialogProps) {
               <span className="text-[11px]" style={{ color: C.textMuted }}>
                 {isReady
                   ? `${results.length} ${t("results")}`
-                  : t("loading")}
+                  : failed
+                    ? t("searchUnavailable")
+                    : t("loading")}
               </span>
             </div>
 
+            {/* Filters — chips toggle the operators in the query */}
+            {facets && (
+              <div
+                className="flex flex-wrap gap-1.5 px-5 py-2.5 border-b"
+                style={{ borderColor: C.borderLight }}
+              >
+                {facets.types.map((type) => chip("type", type, t(GROUP_LABELS[type])))}
+                {facets.subjects.map((s) => chip("in", s.slug, s.title))}
+                {facets.difficulties.map((d) => chip("difficulty", d, tDifficulty(d)))}
+                {facets.semesters.map((n) =>
+                  chip("semester", n, t("semesterNumber", { number: n }))
+                )}
+              </div>
+            )}
+
             {/* Results — taller */}
             {query.trim() && (
               <div className="max-h-96 overflow-y-auto">
@@ -133,47 +212,159 @@ export function SearchDialog({ open, onClose }: SearchDialogProps) {
                     {t("noResults")}
                   </p>
                 ) : (
-                  results.map((entry, i) => (
+                  groups.map(({ group, entries }) => (
+                    <div key={group}>
+                      <p
+                        className="px-5 pt-3 pb-1 text-[10px] font-bold uppercase tracking-wider"
+                        style={{ color: C.textMuted }}
+                      >
+                        {GROUP_LABELS[group] ? t(GROUP_LABELS[group]) : group}
+                      </p>
+                      {entries.map((entry) => {
+                        const i = results.indexOf(entry);
+                        return (
+                          <Link
+                            key={entry.id}
+                            href={entry.route}
+                            onClick={() => {
+                              recordSearch(locale, query, entry);
+                              onClose();
+                            }}
+                            className="block px-5 py-3 cursor-pointer border-b transition-colors"
+                            style={{
+                              borderColor: C.borderLight,
+                              backgroundColor:
+                                i === selectedIdx ? C.headerBg : "transparent",
+                              color: i === selectedIdx ? C.headerText : C.text,
+                            }}
+                            onMouseEnter={() => setSelectedIdx(i)}
+                          >
+                            <div className="flex items-start gap-3">
+                              <span
+                                className="text-[10px] uppercase tracking-wider shrink-0 mt-1 font-bold"
+                                style={{
+                                  color:
+                                    i === selectedIdx
+                                      ? C.headerText
+                                      : TYPE_COLORS[entry.type] || C.accent,
+                                }}
+                              >
+                                [{TYPE_LABELS[entry.type] || "???"}]
+                              </span>
+                              <div className="min-w-0" lang={entry.locale}>
+                                <p className="text-base font-medium">
+                                  {entry.title}
+                                  {entry.heading && (
+                                    <span className="opacity-60"> › {entry.heading}</span>
+                                  )}
+                                  {entry.locale && <LocaleTag locale={entry.locale} />}
+                                </p>
+                                {entry.text && <Snippet text={entry.text} query={query} />}
+                                <p className="text-[12px] opacity-40 mt-0.5">
+                                  {entry.route}
+                                </p>
+                              </div>
+                            </div>
+                          </Link>
+                        );
+                      })}
+                    </div>
+                  ))
+                )}
+              </div>
+            )}
+
+            {/* The dialog shows the top results; the page has them all */}
+            {results.length > 0 && (
+              <Link
+                href={searchHref(query)}
+                onClick={() => {
+                  recordSearch(locale, query);
+                  onClose();
+                }}
+                className="block px-5 py-2.5 text-[11px] font-bold uppercase tracking-wider text-right border-t"
+                style={{ borderColor: C.borderLight, color: C.accent }}
+              >
+                {t("allResults")} →
+              </Link>
+            )}
+
+            {/* Empty state — recent searches and pages, or a hint */}
+            {empty && suggestions.length > 0 && (
+              <div className="max-h-96 overflow-y-auto">
+                <div className="flex items-center justify-between px-5 pt-3 pb-1">
+                  <p
+                    className="text-[10px] font-bold uppercase tracking-wider"
+                    style={{ color: C.textMuted }}
+                  >
+                    {t("recentSearches")}
+                  </p>
+                  <button
+                    onClick={clearHistory}
+                    onMouseDown={(e) => e.preventDefault()}
+                    className="text-[10px] uppercase tracking-wider cursor-pointer opacity-60 hover:opacity-100"
+                    style={{ color: C.textMuted }}
+                  >
+                    {t("clearHistory")}
+                  </button>
+                </div>
+                {suggestions.map((suggestion, i) => {
+                  const selected = i === selectedIdx;
+                  const style = {
+                    borderColor: C.borderLight,
+                    backgroundColor: selected ? C.headerBg : "transparent",
+                    color: selected ? C.headerText : C.text,
+                  };
+                  const className =
+                    "flex items-start gap-3 w-full text-left px-5 py-2.5 cursor-pointer border-b transition-colors";
+                  return suggestion.kind === "query" ? (
+                    <button
+                      key={`query:${suggestion.query}`}
+                      onClick={() => setQuery(suggestion.query)}
+                      onMouseDown={(e) => e.preventDefault()}
+                      onMouseEnter={() => setSelectedIdx(i)}
+                      className={className}
+                      style={style}
+                    >
+                      <span className="shrink-0" style={{ color: selected ? C.headerText : C.textMuted }}>
+                        &gt;
+                      </span>
+                      <span className="text-base">{suggestion.query}</span>
+                    </button>
+                  ) : (
                     <Link
-                      key={entry.id}
-                      href={entry.route}
-                      onClick={onClose}
-                      className="block px-5 py-3 cursor-pointer border-b transition-colors"
-                      style={{
-                        borderColor: C.borderLight,
-                        backgroundColor:
-                          i === selectedIdx ? C.headerBg : "transparent",
-                        color: i === selectedIdx ? C.headerText : C.text,
+                      key={`page:${suggestion.page.route}`}
+                      href={suggestion.page.route}
+                      onClick={() => {
+                        recordSearch(locale, "", suggestion.page);
+                        onClose();
                       }}
                       onMouseEnter={() => setSelectedIdx(i)}
+                      className={className}
+                      style={style}
                     >
-                      <div className="flex items-start gap-3">
-                        <span
-                          className="text-[10px] uppercase tracking-wider shrink-0 mt-1 font-bold"
-                          style={{
-                            color:
-                              i === selectedIdx
-                                ? C.headerText
-                                : TYPE_COLORS[entry.type] || C.accent,
-                          }}
-                        >
-                          [{TYPE_LABELS[entry.type] || "???"}]
-                        </span>
-                        <div className="min-w-0">
-                          <p className="text-base font-medium">{entry.title}</p>
-                          <p className="text-[12px] opacity-40 mt-0.5">
-                            {entry.route}
-                          </p>
-                        </div>
-                      </div>
+                      <span
+                        className="text-[10px] uppercase tracking-wider shrink-0 mt-1 font-bold"
+                        style={{
+                          color: selected
+                            ? C.headerText
+                            : TYPE_COLORS[suggestion.page.type] || C.accent,
+                        }}
+                      >
+                        [{TYPE_LABELS[suggestion.page.type] || "???"}]
+                      </span>
+                      <span className="text-base font-medium">
+                        {suggestion.page.title}
+                        {suggestion.page.heading && (
+                          <span className="opacity-60"> › {suggestion.page.heading}</span>
+                        )}
+                      </span>
                     </Link>
-                  ))
-                )}
+                  );
+                })}
               </div>
             )}
-
-            {/* Empty state */}
-            {!query.trim() && (
+            {empty && suggestions.length === 0 && (
               <div className="px-5 py-8">
                 <p
                   className="text-sm uppercase"
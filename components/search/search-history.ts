@@ -0,0 +1,120 @@
+"use client";
+
+/**
+ * Search history — queries the reader searched for and pages they opened
+ * from search results, per locale, kept in IndexedDB. Suggestions rank
+ * them by frecency: how often, weighted by how recently. Nothing leaves
+ * the browser.
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { HISTORY_STORE, idbDeleteRange, idbGet, idbGetAll, idbSet } from "./search-db";
+
+export interface VisitedPage {
+  route: string;
+  title: string;
+  type: string;
+  heading?: string;
+}
+
+export type Suggestion =
+  | { kind: "query"; query: string }
+  | { kind: "page"; page: VisitedPage };
+
+type HistoryRecord = Suggestion & {
+  locale: string;
+  /** Timestamps, oldest first; only the latest MAX_VISITS count. */
+  visits: number[];
+};
+
+const MAX_VISITS = 10;
+const MAX_SUGGESTIONS = 8;
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+/** Weight of a visit by its age — the usual frecency buckets. */
+const AGE_WEIGHTS: [maxAge: number, weight: number][] = [
+  [4 * HOUR, 100],
+  [DAY, 80],
+  [3 * DAY, 60],
+  [7 * DAY, 40],
+  [30 * DAY, 20],
+];
+const OLD_VISIT_WEIGHT = 10;
+
+export function frecency(visits: number[], now = Date.now()): number {
+  return visits.reduce((score, time) => {
+    const bucket = AGE_WEIGHTS.find(([maxAge]) => now - time <= maxAge);
+    return score + (bucket ? bucket[1] : OLD_VISIT_WEIGHT);
+  }, 0);
+}
+
+function recordKey(locale: string, suggestion: Suggestion): string {
+  const value = suggestion.kind === "query" ? suggestion.query : suggestion.page.route;
+  return `${locale}\n${suggestion.kind}\n${value}`;
+}
+
+/** Every key recordKey() gives for `locale`: they start with `${locale}\n`. */
+function localeKeys(locale: string): IDBKeyRange {
+  return IDBKeyRange.bound(`${locale}\n`, `${locale}\u000b`, false, true);
+}
+
+async function record(locale: string, suggestion: Suggestion) {
+  const key = recordKey(locale, suggestion);
+  const previous = await idbGet<HistoryRecord>(HISTORY_STORE, key);
+  const visits = [...(previous?.visits ?? []), Date.now()].slice(-MAX_VISITS);
+  // The latest title wins — articles get renamed
+  const next: HistoryRecord = { ...suggestion, locale, visits };
+  await idbSet(HISTORY_STORE, key, next);
+}
+
+/** Remember a query that led somewhere, and the page it led to if any. */
+export async function recordSearch(locale: string, query: string, page?: VisitedPage) {
+  if (query.trim()) await record(locale, { kind: "query", query: query.trim() });
+  if (page) {
+    const { route, title, type, heading } = page;
+    await record(locale, { kind: "page", page: { route, title, type, heading } });
+  }
+}
+
+const lastVisit = (r: HistoryRecord) => r.visits[r.visits.length - 1] ?? 0;
+
+export async function getSuggestions(locale: string): Promise<Suggestion[]> {
+  const now = Date.now();
+  const records = await idbGetAll<HistoryRecord>(HISTORY_STORE);
+  return records
+    .filter((r) => r.locale === locale)
+    .map((r) => ({ r, score: frecency(r.visits, now) }))
+    .sort((a, b) => b.score - a.score || lastVisit(b.r) - lastVisit(a.r))
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ r }) => (r.kind === "query" ? { kind: r.kind, query: r.query } : { kind: r.kind, page: r.page }));
+}
+
+/** Forget `locale`'s history; other locales keep theirs. */
+export async function clearSearchHistory(locale: string) {
+  await idbDeleteRange(HISTORY_STORE, localeKeys(locale));
+}
+
+/** Suggestions for `locale`, reloaded whenever `active` turns on. */
+export function useSearchSuggestions(locale: string, active: boolean) {
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+
+  useEffect(() => {
+    if (!active) return;
+    let current = true;
+    getSuggestions(locale).then((loaded) => {
+      if (current) setSuggestions(loaded);
+    });
+    return () => {
+      current = false;
+    };
+  }, [locale, active]);
+
+  const clear = useCallback(() => {
+    setSuggestions([]);
+    clearSearchHistory(locale);
+  }, [locale]);
+
+  return { suggestions, clear };
+}
@@ -0,0 +1,23 @@
+/**
+ * Messages between SearchProvider and the search worker.
+ *
+ * The provider starts one worker per locale and index hash and sends it
+ * `init` once. Each `search` is answered by one or two `results`
+ * messages: the reader's locale first and, if that came up short and
+ * cross-locale search is on, again with other locales' results appended.
+ * The last one has `done` set. A `cancel` drops a search that hasn't
+ * answered yet.
+ */
+
+import type { SearchEntry } from "@/lib/content/types";
+import type { SearchFacets } from "@/lib/search/query";
+
+export type SearchRequest =
+  | { type: "init"; locale: string; hash: string; crossLocale: boolean }
+  | { type: "search"; id: number; query: string; limit?: number }
+  | { type: "cancel"; id: number };
+
+export type SearchResponse =
+  | { type: "ready"; facets: SearchFacets }
+  | { type: "error"; message: string }
+  | { type: "results"; id: number; results: SearchEntry[]; done: boolean };
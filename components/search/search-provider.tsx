@@ -6,207 +6,197 @@ import {
   useEffect,
   useState,
   useCallback,
+  useRef,
   type ReactNode,
 } from "react";
+import type { SearchEntry } from "@/lib/content/types";
+import type { SearchFacets } from "@/lib/search/query";
+import type { SearchRequest, SearchResponse } from "./search-protocol";
 
 // ── Types ──────────────────────────────────────────────
 
-interface SearchEntry {
-  id: string;
-  type: string;
-  slug: string;
-  parentSlug?: string;
-  title: string;
-  description: string;
-  keywords: string[];
-  route: string;
-  extra?: Record<string, unknown>;
-}
+/** Called with each batch of results; `done` on the last one. */
+type ResultsListener = (results: SearchEntry[], done: boolean) => void;
 
 interface SearchContextValue {
-  search: (query: string) => SearchEntry[];
+  /**
+   * Run `query` (operators included, see lib/search/query) in the search
+   * worker. Returns a function that cancels it.
+   */
+  search: (
+    query: string,
+    limit: number | undefined,
+    onResults: ResultsListener
+  ) => () => void;
+  /** Filter values available in the loaded index. */
+  facets: SearchFacets | null;
   isReady: boolean;
-}
-
-// ── IndexedDB Helpers ──────────────────────────────────
-
-const DB_NAME = "wikipefia-search";
-const STORE_NAME = "indexes";
-
-function openDB(): Promise<IDBDatabase> {
-  return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, 1);
-    request.onerror = () => reject(request.error);
-    request.onsuccess = () => resolve(request.result);
-    request.onupgradeneeded = () => {
-      request.result.createObjectStore(STORE_NAME);
-    };
-  });
-}
-
-async function idbGet(
-  key: string
-): Promise<{ hash: string; entries: SearchEntry[] } | null> {
-  try {
-    const db = await openDB();
-    return new Promise((resolve) => {
-      const tx = db.transaction(STORE_NAME, "readonly");
-      const store = tx.objectStore(STORE_NAME);
-      const request = store.get(key);
-      request.onsuccess = () => resolve(request.result || null);
-      request.onerror = () => resolve(null);
-    });
-  } catch {
-    return null;
-  }
-}
-
-async function idbSet(
-  key: string,
-  value: { hash: string; entries: SearchEntry[] }
-): Promise<void> {
-  try {
-    const db = await openDB();
-    return new Promise((resolve) => {
-      const tx = db.transaction(STORE_NAME, "readwrite");
-      const store = tx.objectStore(STORE_NAME);
-      store.put(value, key);
-      tx.oncomplete = () => resolve();
-      tx.onerror = () => resolve();
-    });
-  } catch {
-    // Silent fail — cache is optional
-  }
-}
-
-// ── Simple Text Search (replaces FlexSearch for bundle simplicity) ──
-
-function createSearchIndex(entries: SearchEntry[]) {
-  // Build inverted index for fast lookup
-  const tokenMap = new Map<string, Set<number>>();
-
-  entries.forEach((entry, idx) => {
-    const text =
-      `${entry.title} ${entry.keywords.join(" ")} ${entry.description}`.toLowerCase();
-    const tokens = text.split(/\s+/).filter((t) => t.length > 1);
-    for (const token of tokens) {
-      // Index each prefix for forward matching
-      for (let len = 2; len <= token.length; len++) {
-        const prefix = token.slice(0, len);
-        if (!tokenMap.has(prefix)) tokenMap.set(prefix, new Set());
-        tokenMap.get(prefix)!.add(idx);
-      }
-    }
-  });
-
-  return {
-    search(query: string, limit = 20): number[] {
-      const terms = query.toLowerCase().split(/\s+/).filter((t) => t.length > 1);
-      if (terms.length === 0) return [];
-
-      // Intersection of all term matches
-      let resultSet: Set<number> = new Set<number>();
-      for (let i = 0; i < terms.length; i++) {
-        const matches = tokenMap.get(terms[i]) || new Set<number>();
-        if (i === 0) {
-          resultSet = new Set<number>(matches);
-        } else {
-          const filtered = new Set<number>();
-          for (const id of resultSet) {
-            if (matches.has(id)) filtered.add(id);
-          }
-          resultSet = filtered;
-        }
-      }
-
-      return Array.from(resultSet).slice(0, limit);
-    },
-  };
+  /** The worker or its index failed to load; searches return nothing. */
+  failed: boolean;
 }
 
 // ── Context ────────────────────────────────────────────
 
 const SearchContext = createContext<SearchContextValue>({
-  search: () => [],
+  search: () => () => {},
+  facets: null,
   isReady: false,
+  failed: false,
 });
 
 export function useSearch() {
   return useContext(SearchContext);
 }
 
+/**
+ * Results for `query`, as they come in from the worker. Until the first
+ * batch for a new query arrives, the previous query's results stay;
+ * null means none have arrived yet.
+ */
+export function useSearchResults(
+  query: string,
+  limit?: number
+): { results: SearchEntry[] | null; done: boolean } {
+  const { search } = useSearch();
+  const [state, setState] = useState<{
+    query: string;
+    results: SearchEntry[];
+    done: boolean;
+  } | null>(null);
+
+  useEffect(() => {
+    if (!query.trim()) return;
+    // The cleanup cancels the search once the query moves on
+    return search(query, limit, (results, done) =>
+      setState({ query, results, done })
+    );
+  }, [search, query, limit]);
+
+  if (!query.trim()) return { results: [], done: true };
+  if (!state) return { results: null, done: false };
+  return { results: state.results, done: state.done && state.query === query };
+}
+
 // ── Provider ───────────────────────────────────────────
 
 interface SearchProviderProps {
   children: ReactNode;
   locale: string;
   searchMeta: { hash: string };
+  /**
+   * Search the other locales' indexes when the reader's yields fewer than
+   * FALLBACK_MIN_RESULTS results. Their results carry `locale`.
+   */
+  crossLocale?: boolean;
 }
 
 export function SearchProvider({
   children,
   locale,
   searchMeta,
+  crossLocale = true,
 }: SearchProviderProps) {
-  const [index, setIndex] = useState<ReturnType<
-    typeof createSearchIndex
-  > | null>(null);
-  const [entries, setEntries] = useState<SearchEntry[]>([]);
+  const [facets, setFacets] = useState<SearchFacets | null>(null);
   const [isReady, setIsReady] = useState(false);
-
-  useEffect(() => {
-    async function initSearch() {
-      const cacheKey = `wikipefia-search-${locale}`;
-
-      // Check IndexedDB cache
-      const cached = await idbGet(cacheKey);
-      if (cached && cached.hash === searchMeta.hash) {
-        const idx = createSearchIndex(cached.entries);
-        setEntries(cached.entries);
-        setIndex(idx);
-        setIsReady(true);
-        return;
+  // Key of the worker that failed, so a new locale or index gets a fresh try
+  const [failedKey, setFailedKey] = useState<string | null>(null);
+  const failedRef = useRef(false);
+  const workerRef = useRef<{ key: string; worker: Worker } | null>(null);
+  const listeners = useRef(new Map<number, ResultsListener>());
+  const nextId = useRef(0);
+
+  // Nothing more will come from this worker — finish every search still
+  // waiting, and answer later ones right away
+  const fail = useCallback((reason: string) => {
+    console.warn("Search failed:", reason);
+    failedRef.current = true;
+    setFailedKey(workerRef.current?.key ?? null);
+    setIsReady(false);
+    for (const listener of listeners.current.values()) listener([], true);
+    listeners.current.clear();
+  }, []);
+
+  // One worker per locale and index; started by whoever needs it first —
+  // the effect below, or a search issued from a child's effect
+  const key = `${locale}:${searchMeta.hash}:${crossLocale}`;
+  const getWorker = useCallback((): Worker => {
+    if (workerRef.current?.key === key) return workerRef.current.worker;
+    workerRef.current?.worker.terminate();
+    failedRef.current = false;
+
+    const worker = new Worker(
+      new URL("./search.worker.ts", import.meta.url),
+      { type: "module" }
+    );
+    worker.onmessage = (event: MessageEvent<SearchResponse>) => {
+      const message = event.data;
+      switch (message.type) {
+        case "ready":
+          setFacets(message.facets);
+          setIsReady(true);
+          break;
+        case "error":
+          fail(`index fetch failed: ${message.message}`);
+          break;
+        case "results":
+          listeners.current.get(message.id)?.(message.results, message.done);
+          if (message.done) listeners.current.delete(message.id);
+          break;
       }
+    };
+    // The script failed to load, or threw outside a message handler
+    worker.onerror = (event) => {
+      worker.terminate();
+      fail(event.message || "worker error");
+    };
+    worker.onmessageerror = () => fail("unreadable message from worker");
+    const init: SearchRequest = {
+      type: "init",
+      locale,
+      hash: searchMeta.hash,
+      crossLocale,
+    };
+    worker.postMessage(init);
+    workerRef.current = { key, worker };
+    return worker;
+  }, [key, locale, searchMeta.hash, crossLocale, fail]);
 
-      // Fetch fresh index
-      try {
-        const res = await fetch(
-          `/search/index-${locale}-${searchMeta.hash}.json`
-        );
-        if (!res.ok) throw new Error(`HTTP ${res.status}`);
-        const freshEntries: SearchEntry[] = await res.json();
-
-        const idx = createSearchIndex(freshEntries);
-
-        // Save to IndexedDB
-        await idbSet(cacheKey, {
-          hash: searchMeta.hash,
-          entries: freshEntries,
-        });
-
-        setEntries(freshEntries);
-        setIndex(idx);
-        setIsReady(true);
-      } catch (err) {
-        console.warn("Search index fetch failed:", err);
-        setIsReady(false);
-      }
-    }
+  useEffect(() => {
+    getWorker();
+  }, [getWorker]);
 
-    initSearch();
-  }, [locale, searchMeta.hash]);
+  useEffect(
+    () => () => {
+      workerRef.current?.worker.terminate();
+      workerRef.current = null;
+    },
+    []
+  );
 
   const search = useCallback(
-    (query: string): SearchEntry[] => {
-      if (!index || !query.trim()) return [];
-      const resultIds = index.search(query);
-      return resultIds.map((id) => entries[id]);
+    (query: string, limit: number | undefined, onResults: ResultsListener) => {
+      const worker = getWorker();
+      if (failedRef.current) {
+        onResults([], true);
+        return () => {};
+      }
+      const id = ++nextId.current;
+      listeners.current.set(id, onResults);
+      const request: SearchRequest = { type: "search", id, query, limit };
+      worker.postMessage(request);
+
+      return () => {
+        // Already answered in full — nothing left to cancel
+        if (!listeners.current.delete(id)) return;
+        const cancel: SearchRequest = { type: "cancel", id };
+        worker.postMessage(cancel);
+      };
     },
-    [index, entries]
+    [getWorker]
   );
 
   return (
-    <SearchContext.Provider value={{ search, isReady }}>
+    <SearchContext.Provider value={{ search, facets, isReady, failed: failedKey === key }}>
       {children}
     </SearchContext.Provider>
   );
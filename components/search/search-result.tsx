@@ -0,0 +1,107 @@
+/**
+ * Pieces of a search result shared by the search dialog and /search.
+ */
+
+import { foldText, terms } from "@/lib/search/normalize";
+import { parseQuery } from "@/lib/search/query";
+
+export const TYPE_LABELS: Record<string, string> = {
+  subject: "SUBJ",
+  teacher: "TCHR",
+  "subject-article": "ART",
+  "teacher-article": "ART",
+  "system-article": "SYS",
+};
+
+export const TYPE_COLORS: Record<string, string> = {
+  subject: "#6366F1",
+  teacher: "#059669",
+  "subject-article": "#D97706",
+  "teacher-article": "#D97706",
+  "system-article": "#2563EB",
+};
+
+/** Group heading keys in the `common` namespace. */
+export const GROUP_LABELS: Record<string, string> = {
+  subject: "subjects",
+  teacher: "teachers",
+  article: "articles",
+  system: "system",
+};
+
+/** Marks a result found in another locale's index. */
+export function LocaleTag({ locale }: { locale: string }) {
+  return (
+    <span
+      className="text-[9px] font-bold uppercase px-1 py-px border ml-2 align-middle opacity-60"
+      style={{ borderColor: "currentColor" }}
+    >
+      {locale}
+    </span>
+  );
+}
+
+const SNIPPET_BEFORE = 60;
+const SNIPPET_AFTER = 120;
+
+/**
+ * `text` folded like the index (normalize.ts), with the offset in `text`
+ * each folded character came from — folding may change the length.
+ */
+function foldWithOffsets(text: string): { folded: string; offsets: number[] } {
+  let folded = "";
+  const offsets: number[] = [];
+  let offset = 0;
+  for (const ch of text) {
+    const f = foldText(ch);
+    folded += f;
+    for (let i = 0; i < f.length; i++) offsets.push(offset);
+    offset += ch.length;
+  }
+  offsets.push(offset);
+  return { folded, offsets };
+}
+
+/**
+ * Where in `text` the first query term starts, and how long the match is.
+ * Matches folded text against folded terms, so "cislo" finds "číslo";
+ * filter operators in the query don't count.
+ */
+function findMatch(text: string, query: string): { start: number; length: number } | null {
+  const { folded, offsets } = foldWithOffsets(text);
+  let best: { start: number; end: number } | null = null;
+  for (const term of terms(parseQuery(query).text).filter((t) => t.length > 1)) {
+    const at = folded.indexOf(term);
+    if (at !== -1 && (!best || offsets[at] < best.start)) {
+      best = { start: offsets[at], end: offsets[at + term.length] };
+    }
+  }
+  return best && { start: best.start, length: best.end - best.start };
+}
+
+/** The part of a body chunk around the match, with the match highlighted. */
+export function Snippet({ text: raw, query }: { text: string; query: string }) {
+  // Composed, so a letter and its accent fold as one
+  const text = raw.normalize("NFC");
+  const match = findMatch(text, query) ?? { start: 0, length: 0 };
+  const end = match.start + match.length;
+  let from = Math.max(0, match.start - SNIPPET_BEFORE);
+  let to = Math.min(text.length, end + SNIPPET_AFTER);
+  // Don't cut words in half
+  const firstSpace = text.indexOf(" ", from);
+  if (from > 0 && firstSpace !== -1 && firstSpace < match.start) from = firstSpace + 1;
+  const lastSpace = text.lastIndexOf(" ", to);
+  if (to < text.length && lastSpace > end) to = lastSpace;
+
+  return (
+    <p className="text-[12px] mt-1 opacity-70 normal-case">
+      {from > 0 && "…"}
+      {text.slice(from, match.start)}
+      <mark className="font-bold" style={{ backgroundColor: "transparent", color: "inherit" }}>
+        {text.slice(match.start, end)}
+      </mark>
+      {text.slice(end, to)}
+      {to < text.length && "…"}
+    </p>
+  );
+}
@@ -0,0 +1,151 @@
+/**
+ * Search worker — loads the search indexes (from IndexedDB or the
+ * network) and answers queries off the main thread, so typing doesn't
+ * wait for FlexSearch. Protocol in search-protocol.ts.
+ */
+
+import {
+  loadSearchIndex,
+  SEARCH_INDEX_VERSION,
+  type SearchEngine,
+  type SearchIndexFile,
+} from "@/lib/search/engine";
+import {
+  appendFallbackResults,
+  collectFacets,
+  runQuery,
+  FALLBACK_MIN_RESULTS,
+} from "@/lib/search/query";
+import { fallbackLocales } from "@/lib/i18n/helpers";
+import { idbGet, idbSet, INDEX_STORE } from "./search-db";
+import type { SearchEntry } from "@/lib/content/types";
+import type { SearchRequest, SearchResponse } from "./search-protocol";
+
+// ── Index Loading ──────────────────────────────────────
+
+interface CachedIndex {
+  hash: string;
+  file: SearchIndexFile<SearchEntry>;
+}
+
+/** The index of `locale`, from IndexedDB if it's current, else fetched. */
+async function loadEngine(
+  locale: string,
+  hash: string
+): Promise<SearchEngine<SearchEntry>> {
+  const cacheKey = `wikipefia-search-${locale}`;
+
+  // Check IndexedDB cache
+  const cached = await idbGet<CachedIndex>(INDEX_STORE, cacheKey);
+  if (cached && cached.hash === hash) return loadSearchIndex(cached.file);
+
+  // Fetch fresh index
+  const res = await fetch(`/search/index-${locale}-${hash}.json`);
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  const file: SearchIndexFile<SearchEntry> = await res.json();
+  if (file.version !== SEARCH_INDEX_VERSION) {
+    throw new Error(`Unsupported search index version ${file.version}`);
+  }
+
+  const engine = loadSearchIndex(file);
+
+  // Save to IndexedDB
+  const entry: CachedIndex = { hash, file };
+  await idbSet(INDEX_STORE, cacheKey, entry);
+
+  return engine;
+}
+
+// ── Queries ────────────────────────────────────────────
+
+type Config = Extract<SearchRequest, { type: "init" }>;
+type Search = Extract<SearchRequest, { type: "search" }>;
+
+let config: Config | null = null;
+let primary: Promise<SearchEngine<SearchEntry> | null> | null = null;
+// Other locales' indexes load the first time the reader's comes up short
+const fallbacks = new Map<string, Promise<SearchEngine<SearchEntry> | null>>();
+
+/** Searches asked for and not answered yet; cancelling removes them. */
+const open = new Set<number>();
+
+function post(message: SearchResponse) {
+  self.postMessage(message);
+}
+
+function init(message: Config) {
+  config = message;
+  primary = loadEngine(message.locale, message.hash).then(
+    (engine) => {
+      post({ type: "ready", facets: collectFacets(engine.entries) });
+      return engine;
+    },
+    (err) => {
+      post({ type: "error", message: String(err) });
+      return null;
+    }
+  );
+}
+
+/** Another locale's engine; null if it failed to load, retried next time. */
+function loadFallback(locale: string, hash: string) {
+  let engine = fallbacks.get(locale);
+  if (!engine) {
+    engine = loadEngine(locale, hash).catch((err) => {
+      console.warn(`Search index fetch failed (${locale}):`, err);
+      fallbacks.delete(locale);
+      return null;
+    });
+    fallbacks.set(locale, engine);
+  }
+  return engine;
+}
+
+async function run({ id, query, limit }: Search) {
+  const engine = await primary;
+  if (!open.has(id)) return;
+  if (!engine || !config) {
+    open.delete(id);
+    post({ type: "results", id, results: [], done: true });
+    return;
+  }
+
+  const results = runQuery(engine, query, limit);
+  const short =
+    config.crossLocale && query.trim() !== "" && results.length < FALLBACK_MIN_RESULTS;
+  post({ type: "results", id, results, done: !short });
+  if (!short) {
+    open.delete(id);
+    return;
+  }
+
+  const { locale, hash } = config;
+  const engines = await Promise.all(
+    fallbackLocales(locale).map(async (other) => ({
+      locale: other,
+      engine: await loadFallback(other, hash),
+    }))
+  );
+  if (!open.delete(id)) return;
+  const more = engines.flatMap((f) =>
+    f.engine ? [{ locale: f.locale, results: runQuery(f.engine, query, limit) }] : []
+  );
+  post({ type: "results", id, results: appendFallbackResults(results, more, limit), done: true });
+}
+
+self.onmessage = (event: MessageEvent<SearchRequest>) => {
+  const message = event.data;
+  switch (message.type) {
+    case "init":
+      init(message);
+      break;
+    case "search":
+      open.add(message.id);
+      // Let a cancel that's already queued behind this message land first
+      setTimeout(() => run(message), 0);
+      break;
+    case "cancel":
+      open.delete(message.id);
+      break;
+  }
+};
@@ -1,19 +1,127 @@
 /**
  * Content loader — reads pre-compiled content from .content-build at runtime.
+ *
+ * Manifest files are validated against the schemas in
+ * @wikipefia/mdx-compiler; a build written for another manifest version
+ * is rejected outright rather than half-rendered.
  */
 
-import { readFile } from "fs/promises";
+import { readFile, stat } from "fs/promises";
 import path from "path";
-import type { ContentManifest, TocEntry, SearchMeta } from "./types";
+import type { z } from "zod/v4";
+import {
+  MANIFEST_VERSION,
+  RouteIndex,
+  SubjectManifest,
+  TeacherManifest,
+} from "@wikipefia/mdx-compiler/schemas";
+import { loadSearchIndex, SEARCH_INDEX_VERSION, type SearchEngine } from "@/lib/search/engine";
+import type {
+  ContentManifest,
+  SystemArticleManifest,
+  TocEntry,
+  SearchEntry,
+  SearchMeta,
+} from "./types";
 
 const BUILD_DIR = path.join(process.cwd(), ".content-build");
-let cachedManifest: ContentManifest | null = null;
+const MANIFEST_DIR = path.join(BUILD_DIR, "manifest");
+const INDEX_PATH = path.join(MANIFEST_DIR, "index.json");
 
+// In production the manifest never changes after build. In development
+// `content:watch` rewrites it, so re-read whenever the index's mtime
+// moves. The index is written after its shards, so it also decides when
+// cached shards are stale.
+const WATCH_MANIFEST = process.env.NODE_ENV !== "production";
+
+let cachedIndex: RouteIndex | null = null;
+let cachedIndexMtime = 0;
+const cachedShards = new Map<string, unknown>();
+
+/** .content-build is missing pieces, malformed, or from an incompatible build. */
+export class ManifestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ManifestError";
+  }
+}
+
+function validate<T extends z.ZodType>(schema: T, data: unknown, file: string): z.infer<T> {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    const issues = result.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`);
+    throw new ManifestError(
+      `${file} doesn't match the manifest schema (${issues.slice(0, 5).join("; ")}). ` +
+        "Rebuild content with `pnpm content:compile`."
+    );
+  }
+  return result.data;
+}
+
+/** Route map and system articles — everything but subjects and teachers. */
+export async function getRouteIndex(): Promise<RouteIndex> {
+  if (cachedIndex && !WATCH_MANIFEST) return cachedIndex;
+
+  if (WATCH_MANIFEST) {
+    const { mtimeMs } = await stat(INDEX_PATH);
+    if (cachedIndex && mtimeMs === cachedIndexMtime) return cachedIndex;
+    cachedIndexMtime = mtimeMs;
+    cachedShards.clear();
+  }
+
+  const raw = JSON.parse(await readFile(INDEX_PATH, "utf-8"));
+  // Check the version first — an older layout fails the schema anyway,
+  // but this says why
+  if (raw?.manifestVersion !== MANIFEST_VERSION) {
+    throw new ManifestError(
+      `.content-build was written with manifest version ${raw?.manifestVersion ?? "(none)"}, ` +
+        `this app reads version ${MANIFEST_VERSION}. Rebuild content with \`pnpm content:compile\`.`
+    );
+  }
+  cachedIndex = validate(RouteIndex, raw, "manifest/index.json");
+  return cachedIndex;
+}
+
+async function readShard<T extends z.ZodType>(schema: T, shard: string): Promise<z.infer<T>> {
+  if (!cachedShards.has(shard)) {
+    const raw = await readFile(path.join(MANIFEST_DIR, shard), "utf-8");
+    cachedShards.set(shard, validate(schema, JSON.parse(raw), `manifest/${shard}`));
+  }
+  return cachedShards.get(shard) as z.infer<T>;
+}
+
+export async function getSubject(slug: string): Promise<SubjectManifest | null> {
+  const entry = (await getRouteIndex()).routeMap[slug];
+  if (entry?.type !== "subject" || !entry.shard) return null;
+  return readShard(SubjectManifest, entry.shard);
+}
+
+export async function getTeacher(slug: string): Promise<TeacherManifest | null> {
+  const entry = (await getRouteIndex()).routeMap[slug];
+  if (entry?.type !== "teacher" || !entry.shard) return null;
+  return readShard(TeacherManifest, entry.shard);
+}
+
+export async function getSystemArticle(slug: string): Promise<SystemArticleManifest | null> {
+  return (await getRouteIndex()).systemArticles[slug] ?? null;
+}
+
+/**
+ * The index plus every shard. Only for pages that list the whole wiki;
+ * entity and article pages use the lookups above.
+ */
 export async function getManifest(): Promise<ContentManifest> {
-  if (cachedManifest) return cachedManifest;
-  const raw = await readFile(path.join(BUILD_DIR, "manifest.json"), "utf-8");
-  cachedManifest = JSON.parse(raw);
-  return cachedManifest!;
+  const index = await getRouteIndex();
+  const subjects: ContentManifest["subjects"] = {};
+  const teachers: ContentManifest["teachers"] = {};
+
+  for (const [slug, entry] of Object.entries(index.routeMap)) {
+    if (!entry.shard) continue;
+    if (entry.type === "subject") subjects[slug] = await readShard(SubjectManifest, entry.shard);
+    if (entry.type === "teacher") teachers[slug] = await readShard(TeacherManifest, entry.shard);
+  }
+
+  return { ...index, subjects, teachers };
 }
 
 export async function getCompiledMDX(
@@ -40,3 +148,28 @@ export async function getSearchMeta(): Promise<SearchMeta> {
   );
   return JSON.parse(raw);
 }
+
+const cachedSearchEngines = new Map<string, { hash: string; engine: SearchEngine<SearchEntry> }>();
+
+/**
+ * The search index of `locale`, for rendering results on the server.
+ * Reloaded whenever search-meta.json announces a new one.
+ */
+export async function getSearchEngine(locale: string): Promise<SearchEngine<SearchEntry>> {
+  const { hash } = await getSearchMeta();
+  const cached = cachedSearchEngines.get(locale);
+  if (cached?.hash === hash) return cached.engine;
+
+  const file = JSON.parse(
+    await readFile(path.join(BUILD_DIR, `search-index-${locale}.json`), "utf-8")
+  );
+  if (file?.version !== SEARCH_INDEX_VERSION) {
+    throw new ManifestError(
+      `search-index-${locale}.json has search index version ${file?.version ?? "(none)"}, ` +
+        `this app reads version ${SEARCH_INDEX_VERSION}. Rebuild content with \`pnpm content:compile\`.`
+    );
+  }
+  const engine = loadSearchIndex<SearchEntry>(file);
+  cachedSearchEngines.set(locale, { hash, engine });
+  return engine;
+}
@@ -2,12 +2,6 @@
  * Content pipeline types — shared between build scripts and runtime.
  */
 
-import type { Locale, LocalizedStringType } from "@/lib/schemas";
-import type { ArticleFrontmatterType } from "@/lib/schemas";
-import type { SubjectConfigType } from "@/lib/schemas";
-import type { TeacherConfigType } from "@/lib/schemas";
-import type { SystemArticleEntryType } from "@/lib/schemas";
-
 // ── Table of Contents ──────────────────────────────────
 
 export interface TocEntry {
@@ -32,6 +26,14 @@ export interface SearchEntry {
   description: string;
   keywords: string[];
   route: string;
+  /** Section heading; body chunks only. */
+  heading?: string;
+  /** Plain body text; body chunks only. */
+  text?: string;
+  /** ISO date of the article's last change; articles and their chunks only. */
+  updated?: string;
+  /** Set on results from another locale's index. */
+  locale?: string;
   extra?: {
     difficulty?: string;
     semester?: number;
@@ -41,58 +43,24 @@ export interface SearchEntry {
 
 // ── Manifest ───────────────────────────────────────────
 
-export interface ArticleManifestEntry {
-  frontmatter: ArticleFrontmatterType;
-  locales: Locale[];
-  compiledPath: string; // template with {locale} placeholder
-  tocPath: string;
-  category?: string;
-  section?: string;
-}
-
-export interface SubjectManifest {
-  config: SubjectConfigType;
-  entityType: "subject";
-  resolvedTeachers: Array<{
-    slug: string;
-    name: LocalizedStringType;
-    ratings: TeacherConfigType["ratings"];
-    photo?: string;
-  }>;
-  articles: Record<string, ArticleManifestEntry>;
-}
-
-export interface TeacherManifest {
-  config: TeacherConfigType;
-  entityType: "teacher";
-  resolvedSubjects: Array<{
-    slug: string;
-    name: LocalizedStringType;
-  }>;
-  articles: Record<string, ArticleManifestEntry>;
-}
-
-export interface SystemArticleManifest {
-  config: SystemArticleEntryType;
-  locales: Locale[];
-  compiledPath: string;
-  tocPath: string;
-}
-
-export interface ContentManifest {
-  buildHash: string;
-  buildTime: string;
-  locales: Locale[];
-
-  routeMap: Record<
-    string,
-    { type: "subject" | "teacher" | "system-article" }
-  >;
-
-  subjects: Record<string, SubjectManifest>;
-  teachers: Record<string, TeacherManifest>;
-  systemArticles: Record<string, SystemArticleManifest>;
-}
+// Defined once as Zod schemas in the compiler package; the build validates
+// against them before writing and the loader after reading.
+export type {
+  ContentAsset,
+  LocaleAssets,
+  ArticleHistory,
+  LocaleHistory,
+  Backlink,
+  LocaleBacklinks,
+  PrerequisiteRef,
+  ArticleManifestEntry,
+  SubjectManifest,
+  TeacherManifest,
+  SystemArticleManifest,
+  RouteIndexEntry,
+  RouteIndex,
+  ContentManifest,
+} from "@wikipefia/mdx-compiler/schemas";
 
 export interface SearchMeta {
   hash: string;
@@ -1,4 +1,4 @@
-import type { Locale } from "./config";
+import { locales, type Locale } from "./config";
 import type { LocalizedStringType } from "@/lib/schemas";
 
 /**
@@ -16,6 +16,17 @@ export function resolveLocale(
   return availableLocales[0];
 }
 
+/** The locales other than `locale`, in resolveLocale's order of preference. */
+export function fallbackLocales(locale: string): Locale[] {
+  const rank = (l: Locale) => (l === "en" ? 0 : l === "ru" ? 1 : 2);
+  return locales.filter((l) => l !== locale).sort((a, b) => rank(a) - rank(b));
+}
+
+/** BCP 47 tag for Intl and lang attributes — our "cz" is Czech, "cs". */
+export function languageTag(locale: string): string {
+  return locale === "cz" ? "cs" : locale;
+}
+
 /**
  * Pick the localized string for a given locale, with fallback.
  */
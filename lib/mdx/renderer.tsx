@@ -5,18 +5,60 @@
  */
 
 import { run } from "@mdx-js/mdx";
+import type { ComponentProps } from "react";
 import * as jsxRuntime from "react/jsx-runtime";
+import type { MDXComponents } from "mdx/types";
+import type { ContentAsset } from "@/lib/content/types";
+import { Figure } from "@/components/mdx";
 import { mdxComponents } from "./components";
 
 interface MDXRendererProps {
   compiledSource: string;
+  /** Published images of this page, keyed by the path as written in MDX. */
+  assets?: Record<string, ContentAsset>;
 }
 
-export async function MDXRenderer({ compiledSource }: MDXRendererProps) {
+/**
+ * Point relative image paths at their published URLs. Explicit
+ * width/height props win over the intrinsic size.
+ */
+function withAssets(assets: Record<string, ContentAsset>): MDXComponents {
+  return {
+    ...mdxComponents,
+    Figure: (props: ComponentProps<typeof Figure>) => {
+      const asset = assets[props.src];
+      if (!asset) return <Figure {...props} />;
+      return (
+        <Figure
+          {...props}
+          src={asset.src}
+          width={props.width ?? asset.width}
+          height={props.height ?? asset.height}
+        />
+      );
+    },
+    // Markdown images keep rendering as plain <img>, only the URL and size change
+    img: ({ src, alt = "", width, height, ...props }: ComponentProps<"img">) => {
+      const asset = typeof src === "string" ? assets[src] : undefined;
+      return (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img
+          {...props}
+          src={asset?.src ?? src}
+          alt={alt}
+          width={width ?? asset?.width}
+          height={height ?? asset?.height}
+        />
+      );
+    },
+  };
+}
+
+export async function MDXRenderer({ compiledSource, assets }: MDXRendererProps) {
   const { default: MDXContent } = await run(compiledSource, {
     ...jsxRuntime,
     baseUrl: import.meta.url,
   });
 
-  return <MDXContent components={mdxComponents} />;
+  return <MDXContent components={assets ? withAssets(assets) : mdxComponents} />;
 }
@@ -1,3 +1,5 @@
+import type { SearchEntry } from "@/lib/content/types";
+
 export interface LocalizedString {
   ru: string;
   en: string;
@@ -29,18 +31,11 @@ export interface MockTeacher {
   subjects: string[];
 }
 
-export interface SearchEntry {
-  id: string;
-  type:
-    | "subject"
-    | "teacher"
-    | "subject-article"
-    | "teacher-article"
-    | "system-article";
-  title: string;
-  description: string;
-  route: string;
-}
+/** The fields of a search index entry the mock data fills in. */
+export type MockSearchEntry = Pick<
+  SearchEntry,
+  "id" | "type" | "title" | "description" | "route"
+>;
 
 export const subjects: MockSubject[] = [
   {
@@ -198,7 +193,7 @@ export const teachers: MockTeacher[] = [
   },
 ];
 
-export const searchEntries: SearchEntry[] = [
+export const searchEntries: MockSearchEntry[] = [
   // Subjects
   ...subjects.map((s) => ({
     id: `subject:${s.slug}`,
@@ -0,0 +1,47 @@
+"use client";
+
+/**
+ * Articles the reader has opened, kept in localStorage — enough to tell
+ * which prerequisites they haven't read yet. Nothing leaves the browser.
+ */
+
+import { useSyncExternalStore } from "react";
+
+const STORAGE_KEY = "readArticles";
+const listeners = new Set<() => void>();
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  // Other tabs
+  window.addEventListener("storage", listener);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", listener);
+  };
+}
+
+function getSnapshot(): string {
+  return localStorage.getItem(STORAGE_KEY) ?? "[]";
+}
+
+function parse(raw: string): string[] {
+  try {
+    const routes = JSON.parse(raw);
+    return Array.isArray(routes) ? routes : [];
+  } catch {
+    return [];
+  }
+}
+
+export function markRead(route: string) {
+  const routes = parse(getSnapshot());
+  if (routes.includes(route)) return;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify([...routes, route]));
+  listeners.forEach((listener) => listener());
+}
+
+/** Routes of read articles; null during server rendering, when nothing is known. */
+export function useReadArticles(): Set<string> | null {
+  const raw = useSyncExternalStore(subscribe, getSnapshot, () => null);
+  return raw === null ? null : new Set(parse(raw));
+}
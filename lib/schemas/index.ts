@@ -1,14 +1,26 @@
-export { locales, LocalizedString, LocalizedKeywords } from "./shared";
-export type { Locale, LocalizedStringType, LocalizedKeywordsType } from "./shared";
+/**
+ * Content schemas live in @wikipefia/mdx-compiler, shared with the content
+ * build and the content repos' CI. Re-exported here under the app's names.
+ */
 
-export { SubjectConfig } from "./subject";
-export type { SubjectConfigType } from "./subject";
+export {
+  LOCALES as locales,
+  LocalizedString,
+  LocalizedKeywords,
+  SubjectConfig,
+  TeacherConfig,
+  ArticleFrontmatter,
+  SystemArticleEntry,
+  SystemConfig,
+} from "@wikipefia/mdx-compiler/schemas";
 
-export { TeacherConfig } from "./teacher";
-export type { TeacherConfigType } from "./teacher";
-
-export { ArticleFrontmatter } from "./article";
-export type { ArticleFrontmatterType } from "./article";
-
-export { SystemArticleEntry, SystemConfig } from "./system-article";
-export type { SystemArticleEntryType, SystemConfigType } from "./system-article";
+export type {
+  Locale,
+  LocalizedString as LocalizedStringType,
+  LocalizedKeywords as LocalizedKeywordsType,
+  SubjectConfig as SubjectConfigType,
+  TeacherConfig as TeacherConfigType,
+  ArticleFrontmatter as ArticleFrontmatterType,
+  SystemArticleEntry as SystemArticleEntryType,
+  SystemConfig as SystemConfigType,
+} from "@wikipefia/mdx-compiler/schemas";
@@ -0,0 +1,201 @@
+/**
+ * Search engine shared by the content build and the browser.
+ *
+ * The build indexes every entry with FlexSearch and ships the exported
+ * index alongside the entries, so the browser only imports it. Queries
+ * are folded like the indexed text (normalize.ts); each term matches by
+ * prefix, and terms of four letters or more also match words in the
+ * index's vocabulary one or two typos away. Every term has to match
+ * somewhere; rankResults() orders what does.
+ *
+ * Imported by scripts/content/search.ts under Node, hence the explicit
+ * .ts extensions.
+ */
+
+import { Document, Encoder, type DocumentData } from "flexsearch";
+import { foldText, terms } from "./normalize.ts";
+import { rankResults, type RankedEntry } from "./rank.ts";
+
+/** Bump when the file layout or the index options change. */
+export const SEARCH_INDEX_VERSION = 1;
+
+/** The text fields an entry is indexed by; body is heading + text. */
+const FIELDS = ["title", "keywords", "description", "body"] as const;
+
+/** Candidates fetched per term and field before ranking. */
+const CANDIDATE_LIMIT = 500;
+
+export interface SearchIndexFile<E extends RankedEntry = RankedEntry> {
+  version: number;
+  entries: E[];
+  /** FlexSearch export, key → data. */
+  index: Record<string, string>;
+  /** Every distinct folded word, sorted, for typo matching. */
+  vocabulary: string[];
+}
+
+function createDocument() {
+  return new Document<DocumentData>({
+    document: { id: "id", index: [...FIELDS] },
+    tokenize: "forward",
+    encoder: new Encoder({ normalize: foldText, dedupe: false }),
+  });
+}
+
+function fieldsOf(entry: RankedEntry): Record<(typeof FIELDS)[number], string> {
+  return {
+    title: entry.title,
+    keywords: entry.keywords.join(" "),
+    description: entry.description,
+    body: [entry.heading, entry.text].filter(Boolean).join(" "),
+  };
+}
+
+/** Build the index file for one locale. Entries are referred to by position. */
+export async function buildSearchIndex<E extends RankedEntry>(entries: E[]): Promise<SearchIndexFile<E>> {
+  const doc = createDocument();
+  const vocabulary = new Set<string>();
+  entries.forEach((entry, i) => {
+    const fields = fieldsOf(entry);
+    doc.add({ id: i, ...fields });
+    for (const text of Object.values(fields)) {
+      for (const term of terms(text)) vocabulary.add(term);
+    }
+  });
+
+  const index: Record<string, string> = {};
+  await doc.export((key, data) => {
+    index[key] = data;
+  });
+  return { version: SEARCH_INDEX_VERSION, entries, index, vocabulary: [...vocabulary].sort() };
+}
+
+function allowedTypos(term: string): number {
+  if (term.length >= 8) return 2;
+  return term.length >= 4 ? 1 : 0;
+}
+
+/** Most typo variants a term expands to; the closest ones win. */
+const MAX_TYPO_VARIANTS = 20;
+
+/**
+ * Vocabulary words a query term may have been meant as, besides its own
+ * prefix matches. The term is compared with whole words and, since the
+ * reader may still be typing, with word prefixes of the same length.
+ *
+ * `vocabulary` must be sorted, which makes it a trie: the words sharing a
+ * prefix are a contiguous range. The walk extends one edit-distance row
+ * per letter — optimal string alignment distance, so a swap of adjacent
+ * letters is one typo — and drops a prefix as soon as every entry in its
+ * row is past the allowed typos, so most of the vocabulary is never
+ * looked at.
+ */
+export function typoVariants(term: string, vocabulary: string[]): string[] {
+  const max = allowedTypos(term);
+  if (max === 0) return [];
+
+  const distances = new Map<string, number>();
+  const add = (word: string, distance: number) => {
+    if (word.startsWith(term)) return;
+    const previous = distances.get(word);
+    if (previous === undefined || distance < previous) distances.set(word, distance);
+  };
+
+  // Words in [lo, hi) share their first `depth` letters; `row` holds the
+  // distances from that prefix to each prefix of the term, `previousRow`
+  // the same for the prefix one letter shorter (for transpositions)
+  const walk = (depth: number, lo: number, hi: number, row: number[], previousRow: number[]) => {
+    const lastLetter = vocabulary[lo][depth - 1];
+    const distance = row[term.length];
+    if (vocabulary[lo].length === depth) {
+      if (distance <= max) add(vocabulary[lo], distance);
+      lo++;
+    }
+    if (depth === term.length && distance <= max) {
+      for (let i = lo; i < hi; i++) add(vocabulary[i], distance);
+    }
+    if (depth >= term.length + max) return;
+
+    while (lo < hi) {
+      const letter = vocabulary[lo][depth];
+      // Binary search for the end of the words continuing with `letter`
+      let end = lo + 1;
+      let high = hi;
+      while (end < high) {
+        const mid = (end + high) >> 1;
+        if (vocabulary[mid][depth] === letter) end = mid + 1;
+        else high = mid;
+      }
+
+      const next = [depth + 1];
+      let best = depth + 1;
+      for (let j = 1; j <= term.length; j++) {
+        const cost = term[j - 1] === letter ? 0 : 1;
+        next[j] = Math.min(row[j] + 1, next[j - 1] + 1, row[j - 1] + cost);
+        if (j > 1 && letter === term[j - 2] && lastLetter === term[j - 1]) {
+          next[j] = Math.min(next[j], previousRow[j - 2] + 1);
+        }
+        best = Math.min(best, next[j]);
+      }
+      if (best <= max) walk(depth + 1, lo, end, next, row);
+      lo = end;
+    }
+  };
+
+  if (vocabulary.length > 0) {
+    walk(0, 0, vocabulary.length, Array.from({ length: term.length + 1 }, (_, j) => j), []);
+  }
+
+  return [...distances]
+    .sort(([a, da], [b, db]) => da - db || (a < b ? -1 : a > b ? 1 : 0))
+    .slice(0, MAX_TYPO_VARIANTS)
+    .map(([word]) => word);
+}
+
+export interface SearchOptions<E> {
+  limit?: number;
+  /** Applied before ranking, so it doesn't eat into `limit`. */
+  filter?: (entry: E) => boolean;
+}
+
+export interface SearchEngine<E extends RankedEntry> {
+  entries: E[];
+  search(query: string, options?: SearchOptions<E>): E[];
+}
+
+export function loadSearchIndex<E extends RankedEntry>(file: SearchIndexFile<E>): SearchEngine<E> {
+  const doc = createDocument();
+  for (const [key, data] of Object.entries(file.index)) doc.import(key, data);
+
+  const matching = (word: string): Set<number> => {
+    const ids = new Set<number>();
+    for (const { result } of doc.search(word, { limit: CANDIDATE_LIMIT })) {
+      for (const id of result) ids.add(Number(id));
+    }
+    return ids;
+  };
+
+  return {
+    entries: file.entries,
+    search(query, { limit = 20, filter } = {}) {
+      const queryTerms = [...new Set(terms(query))];
+      if (queryTerms.length === 0) return [];
+
+      // Every term must match, directly or through a typo variant
+      const variants = new Map<string, string[]>();
+      let candidates: number[] | null = null;
+      for (const term of queryTerms) {
+        const words = typoVariants(term, file.vocabulary);
+        variants.set(term, words);
+        const ids = matching(term);
+        for (const word of words) for (const id of matching(word)) ids.add(id);
+        candidates = candidates === null ? [...ids] : candidates.filter((id) => ids.has(id));
+        if (candidates.length === 0) return [];
+      }
+
+      let entries = candidates!.map((id) => file.entries[id]);
+      if (filter) entries = entries.filter(filter);
+      return rankResults(entries, query, { variants }).slice(0, limit);
+    },
+  };
+}
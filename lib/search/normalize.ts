@@ -0,0 +1,24 @@
+/**
+ * Text folding shared by the search index and queries — both sides must
+ * fold identically or nothing matches.
+ *
+ * Latin letters lose their diacritics (číslo → cislo), Cyrillic ё folds
+ * to е. Other Cyrillic letters keep theirs: й is not и.
+ */
+
+const LATIN_WITH_MARKS = /[À-ɏḀ-ỿ]/g;
+const COMBINING_MARKS = /[̀-ͯ]/g;
+const TERM = new RegExp("[\\p{L}\\p{N}]+", "gu");
+
+export function foldText(text: string): string {
+  return text
+    .normalize("NFC")
+    .toLowerCase()
+    .replace(/ё/g, "е")
+    .replace(LATIN_WITH_MARKS, (ch) => ch.normalize("NFD").replace(COMBINING_MARKS, ""));
+}
+
+/** Folded words of `text`, in order. */
+export function terms(text: string): string[] {
+  return foldText(text).match(TERM) ?? [];
+}
@@ -0,0 +1,219 @@
+/**
+ * Search query syntax and facet filters.
+ *
+ * Besides free text, a query may carry `key:value` operators:
+ *
+ *   type:teacher       subject, teacher, article or system
+ *   in:economics       entries of a subject or teacher, by slug
+ *   difficulty:hard    the subject's or article's difficulty
+ *   semester:2         the subject's semester; articles inherit it
+ *
+ * Operators on the same key widen the filter, different keys narrow it.
+ * The dialog's filter chips add and remove operators in the query text,
+ * so what's typed and what's clicked never disagree. In /search URLs the
+ * operators become parameters of their own: `?q=supply&type=article`.
+ */
+
+import { foldText } from "./normalize.ts";
+import type { SearchEngine } from "./engine.ts";
+import type { RankedEntry } from "./rank.ts";
+
+export const FILTER_KEYS = ["type", "in", "difficulty", "semester"] as const;
+
+export type FilterKey = (typeof FILTER_KEYS)[number];
+
+export type SearchFilters = Partial<Record<FilterKey, string[]>>;
+
+export interface ParsedQuery {
+  /** The query without its operators. */
+  text: string;
+  filters: SearchFilters;
+}
+
+/** What filtering reads from an entry. */
+export interface FilterableEntry {
+  type: string;
+  slug: string;
+  parentSlug?: string;
+  title: string;
+  /** Body chunks carry text; they don't stand for an entity of their own. */
+  text?: string;
+  extra?: { difficulty?: unknown; semester?: unknown };
+}
+
+/** Result groups, in the order their `type:` values are listed. */
+export const TYPE_GROUPS: Record<string, string> = {
+  subject: "subject",
+  teacher: "teacher",
+  "subject-article": "article",
+  "teacher-article": "article",
+  "system-article": "system",
+};
+
+const OPERATOR = new RegExp(`(^|\\s)(${FILTER_KEYS.join("|")}):(\\S+)`, "gi");
+
+export function parseQuery(query: string): ParsedQuery {
+  const filters: SearchFilters = {};
+  const text = query.replace(OPERATOR, (_, space: string, key: string, value: string) => {
+    const values = (filters[key.toLowerCase() as FilterKey] ??= []);
+    const folded = foldText(value);
+    if (!values.includes(folded)) values.push(folded);
+    return space;
+  });
+  return { text: text.replace(/\s+/g, " ").trim(), filters };
+}
+
+export function hasFilters(filters: SearchFilters): boolean {
+  return Object.keys(filters).length > 0;
+}
+
+/** `query` with `key:value` added, or removed if it's already there. */
+export function toggleFilter(query: string, key: FilterKey, value: string): string {
+  const { filters } = parseQuery(query);
+  const folded = foldText(value);
+  if (!filters[key]?.includes(folded)) return `${query.trimEnd()} ${key}:${value}`.trimStart();
+
+  const rest = query.replace(OPERATOR, (match, space: string, k: string, v: string) =>
+    k.toLowerCase() === key && foldText(v) === folded ? space : match
+  );
+  return rest.replace(/\s+/g, " ").trimStart();
+}
+
+/** Results per page of /search. */
+export const SEARCH_PAGE_SIZE = 20;
+
+/** The query in search page parameters: `q` plus one parameter per operator. */
+export function queryFromParams(params: URLSearchParams): string {
+  const operators = FILTER_KEYS.flatMap((key) =>
+    params.getAll(key).map((value) => `${key}:${value}`)
+  );
+  return [params.get("q") ?? "", ...operators].join(" ").trim();
+}
+
+/** Search page parameters for `query` — the inverse of queryFromParams. */
+export function paramsFromQuery(query: string): URLSearchParams {
+  const { text, filters } = parseQuery(query);
+  const params = new URLSearchParams();
+  if (text) params.set("q", text);
+  for (const key of FILTER_KEYS) {
+    for (const value of filters[key] ?? []) params.append(key, value);
+  }
+  return params;
+}
+
+/** Shareable /search URL of a query; operators become parameters of their own. */
+export function searchHref(query: string, page = 1): string {
+  const params = paramsFromQuery(query);
+  if (page > 1) params.set("page", String(page));
+  const search = params.toString();
+  return search ? `/search?${search}` : "/search";
+}
+
+function matchesFilter(
+  entry: FilterableEntry,
+  key: FilterKey,
+  values: string[],
+  parents: Map<string, FilterableEntry>
+): boolean {
+  const parent = entry.parentSlug ? parents.get(entry.parentSlug) : undefined;
+  switch (key) {
+    case "type":
+      return values.includes(TYPE_GROUPS[entry.type]);
+    case "in":
+      return values.includes(foldText(entry.parentSlug ?? entry.slug));
+    case "difficulty":
+      return values.includes(foldText(String(entry.extra?.difficulty ?? "")));
+    case "semester":
+      return values.includes(String(entry.extra?.semester ?? parent?.extra?.semester ?? ""));
+  }
+}
+
+/**
+ * A predicate for `filters`. `entries` is the whole index — articles look
+ * up their subject there for what they don't carry themselves.
+ */
+export function createFilter<E extends FilterableEntry>(
+  filters: SearchFilters,
+  entries: E[]
+): (entry: E) => boolean {
+  const parents = new Map(
+    entries.filter((e) => !e.text && !e.parentSlug).map((e) => [e.slug, e] as const)
+  );
+  return (entry) =>
+    FILTER_KEYS.every((key) => {
+      const values = filters[key];
+      return !values || matchesFilter(entry, key, values, parents);
+    });
+}
+
+/**
+ * Results for a query, operators included. Operators alone list what
+ * they select, in index order and without body chunks.
+ */
+export function runQuery<E extends RankedEntry & FilterableEntry>(
+  engine: SearchEngine<E>,
+  query: string,
+  limit?: number
+): E[] {
+  const { text, filters } = parseQuery(query);
+  if (!hasFilters(filters)) return text ? engine.search(text, { limit }) : [];
+
+  const filter = createFilter(filters, engine.entries);
+  if (text) return engine.search(text, { limit, filter });
+  return engine.entries.filter((entry) => !entry.text && filter(entry)).slice(0, limit);
+}
+
+/** With fewer results in the reader's locale, the other locales are searched too. */
+export const FALLBACK_MIN_RESULTS = 5;
+
+/**
+ * `results` followed by those of other locales' indexes, tagged with
+ * their locale. Articles already among the results aren't repeated.
+ */
+export function appendFallbackResults<E extends { route: string }>(
+  results: E[],
+  fallbacks: { locale: string; results: E[] }[],
+  limit = Infinity
+): (E & { locale?: string })[] {
+  const page = (route: string) => route.split("#")[0];
+  const seen = new Set(results.map((entry) => page(entry.route)));
+  const merged: (E & { locale?: string })[] = [...results];
+  for (const { locale, results: more } of fallbacks) {
+    for (const entry of more) {
+      if (merged.length >= limit) return merged;
+      if (seen.has(page(entry.route))) continue;
+      seen.add(page(entry.route));
+      merged.push({ ...entry, locale });
+    }
+  }
+  return merged;
+}
+
+export interface SearchFacets {
+  types: string[];
+  subjects: { slug: string; title: string }[];
+  difficulties: string[];
+  semesters: number[];
+}
+
+/** The filter values that select anything in `entries`. */
+export function collectFacets(entries: FilterableEntry[]): SearchFacets {
+  const types = new Set<string>();
+  const subjects: SearchFacets["subjects"] = [];
+  const difficulties = new Set<string>();
+  const semesters = new Set<number>();
+  for (const entry of entries) {
+    if (entry.text) continue;
+    types.add(TYPE_GROUPS[entry.type]);
+    if (entry.type === "subject") subjects.push({ slug: entry.slug, title: entry.title });
+    if (typeof entry.extra?.difficulty === "string") difficulties.add(entry.extra.difficulty);
+    if (typeof entry.extra?.semester === "number") semesters.add(entry.extra.semester);
+  }
+  const groups = [...new Set(Object.values(TYPE_GROUPS))];
+  return {
+    types: groups.filter((group) => types.has(group)),
+    subjects,
+    difficulties: [...difficulties],
+    semesters: [...semesters].sort((a, b) => a - b),
+  };
+}
@@ -0,0 +1,120 @@
+/**
+ * Relevance ranking of search results — a pure function of the matched
+ * entries and the query, so it can be reasoned about without an index.
+ *
+ * Each query term scores once per entry, by the best field it matches
+ * in: title over keywords over description over the body. An exact word
+ * beats a prefix, a prefix beats a typo. On top of that: the whole query
+ * as the title, the query as a phrase, and — for short queries, which are
+ * usually names — subjects and teachers. Ties go to the most recently
+ * updated entry.
+ */
+
+import { terms } from "./normalize.ts";
+
+/** What ranking reads from an entry. */
+export interface RankedEntry {
+  type: string;
+  title: string;
+  description: string;
+  keywords: string[];
+  heading?: string;
+  text?: string;
+  /** ISO date the entry's content last changed. */
+  updated?: string;
+}
+
+export interface RankOptions {
+  /** Query term → vocabulary words it was expanded to as a likely typo. */
+  variants?: Map<string, string[]>;
+}
+
+const FIELD_WEIGHTS = {
+  title: 8,
+  keywords: 4,
+  description: 2,
+  heading: 1.5,
+  text: 1,
+} as const;
+
+type Field = keyof typeof FIELD_WEIGHTS;
+
+const EXACT = 1;
+const PREFIX = 0.7;
+const TYPO = 0.5;
+
+const TITLE_EXACT_BONUS = 10;
+const TITLE_PHRASE_BONUS = 4;
+const PHRASE_BONUS = 2;
+
+/** Subjects and teachers get a lift on queries of at most this many terms. */
+const SHORT_QUERY_TERMS = 2;
+const ENTITY_TYPES = new Set(["subject", "teacher"]);
+const ENTITY_BONUS = 1.5;
+
+function fieldText(entry: RankedEntry, field: Field): string {
+  return field === "keywords" ? entry.keywords.join(" ") : (entry[field] ?? "");
+}
+
+/** How well `term` matches the best word of `words`, 0 if none does. */
+function termMatch(term: string, typos: string[], words: string[]): number {
+  let best = 0;
+  for (const word of words) {
+    if (word === term) return EXACT;
+    if (word.startsWith(term)) best = PREFIX;
+    else if (best < TYPO && typos.some((typo) => word.startsWith(typo))) best = TYPO;
+  }
+  return best;
+}
+
+/** Relevance of one entry; 0 when no term matches anywhere. */
+export function scoreEntry(entry: RankedEntry, query: string, options: RankOptions = {}): number {
+  const queryTerms = [...new Set(terms(query))];
+  if (queryTerms.length === 0) return 0;
+
+  const fields = (Object.keys(FIELD_WEIGHTS) as Field[]).map((field) => ({
+    field,
+    words: terms(fieldText(entry, field)),
+  }));
+
+  let score = 0;
+  for (const term of queryTerms) {
+    const typos = options.variants?.get(term) ?? [];
+    let best = 0;
+    for (const { field, words } of fields) {
+      best = Math.max(best, FIELD_WEIGHTS[field] * termMatch(term, typos, words));
+    }
+    score += best;
+  }
+  if (score === 0) return 0;
+
+  const phrase = queryTerms.join(" ");
+  const title = terms(entry.title).join(" ");
+  if (title === phrase) score += TITLE_EXACT_BONUS;
+  else if (queryTerms.length > 1 && title.includes(phrase)) score += TITLE_PHRASE_BONUS;
+  else if (
+    queryTerms.length > 1 &&
+    fields.some(({ field, words }) => field !== "title" && words.join(" ").includes(phrase))
+  ) {
+    score += PHRASE_BONUS;
+  }
+
+  if (queryTerms.length <= SHORT_QUERY_TERMS && ENTITY_TYPES.has(entry.type)) score += ENTITY_BONUS;
+
+  return score;
+}
+
+/**
+ * Order `entries` by relevance to `query`, dropping those that don't
+ * match. Equal scores go to the later `updated`, then keep their order.
+ */
+export function rankResults<E extends RankedEntry>(entries: E[], query: string, options: RankOptions = {}): E[] {
+  return entries
+    .map((entry, i) => ({ entry, i, score: scoreEntry(entry, query, options) }))
+    .filter(({ score }) => score > 0)
+    .sort(
+      (a, b) =>
+        b.score - a.score || (b.entry.updated ?? "").localeCompare(a.entry.updated ?? "") || a.i - b.i
+    )
+    .map(({ entry }) => entry);
+}
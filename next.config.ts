@@ -1,5 +1,5 @@
 import type { NextConfig } from "next";
-import { existsSync, mkdirSync, cpSync, readFileSync } from "fs";
+import { existsSync, mkdirSync, cpSync, readdirSync, readFileSync, rmSync } from "fs";
 import path from "path";
 import createNextIntlPlugin from "next-intl/plugin";
 
@@ -36,8 +36,44 @@ function copySearchIndexes() {
   cpSync(metaPath, path.join(publicSearchDir, "meta.json"));
 }
 
+// Pre-build hook: publish content images to public/assets/
+function copyContentAssets() {
+  const assetsDir = path.join(process.cwd(), ".content-build", "assets");
+  const publicAssetsDir = path.join(process.cwd(), "public", "assets");
+
+  if (!existsSync(assetsDir)) return;
+
+  // Fully generated — drop images no article references anymore
+  rmSync(publicAssetsDir, { recursive: true, force: true });
+  cpSync(assetsDir, publicAssetsDir, { recursive: true });
+}
+
+// Pre-build hook: publish sitemaps and robots.txt at the site root
+function copySitemaps() {
+  const sitemapDir = path.join(process.cwd(), ".content-build", "sitemap");
+  if (!existsSync(sitemapDir)) return;
+
+  for (const file of readdirSync(sitemapDir)) {
+    cpSync(path.join(sitemapDir, file), path.join(process.cwd(), "public", file));
+  }
+}
+
+// Pre-build hook: publish Atom feeds to public/feeds/
+function copyFeeds() {
+  const feedsDir = path.join(process.cwd(), ".content-build", "feeds");
+  const publicFeedsDir = path.join(process.cwd(), "public", "feeds");
+
+  if (!existsSync(feedsDir)) return;
+
+  rmSync(publicFeedsDir, { recursive: true, force: true });
+  cpSync(feedsDir, publicFeedsDir, { recursive: true });
+}
+
 // Run copy on config load (before next build)
 copySearchIndexes();
+copyContentAssets();
+copySitemaps();
+copyFeeds();
 
 const nextConfig: NextConfig = {
   // Ensure .mjs files from .content-build can be loaded
@@ -8,6 +8,8 @@
  *   wikipefia-mdx validate [dir] --type teacher     Single teacher directory
  *   wikipefia-mdx validate [dir] --type teachers    Unified teachers repo (multiple teachers)
  *   wikipefia-mdx validate [dir] --type system      System articles repo
+ *   wikipefia-mdx validate [dir] --format sarif     Machine-readable diagnostics on stdout
+ *   wikipefia-mdx explain <code> [component]        Explain a diagnostic code
  *
  * Exit codes:
  *   0 = all valid (warnings are OK)
@@ -18,15 +20,54 @@
 import path from "path";
 import { existsSync } from "fs";
 import { readFile, readdir, stat } from "fs/promises";
-import { validateMDX } from "../validate.js";
+import { validateMDX, type ValidationDiagnostic } from "../validate.js";
+import {
+  formatDiagnostics,
+  isDiagnosticFormat,
+  DIAGNOSTIC_FORMATS,
+  type DiagnosticFormat,
+} from "../format.js";
 import { SubjectConfig } from "../schemas/subject.js";
 import { TeacherConfig } from "../schemas/teacher.js";
 import { SystemConfig } from "../schemas/system.js";
 import { LOCALES } from "../schemas/shared.js";
+import {
+  diagnosticCatalog,
+  isDiagnosticCode,
+  type DiagnosticExplanation,
+} from "../diagnostics.js";
+import {
+  componentRegistry,
+  type ComponentContract,
+} from "../components/registry.js";
+
+// ── Output ───────────────────────────────────────────
+
+// With --format, stdout carries only the machine-readable diagnostics;
+// everything meant for people goes to stderr.
+const humanStream = process.argv.includes("--format")
+  ? process.stderr
+  : process.stdout;
+
+function print(s: string = "") {
+  humanStream.write(s + "\n");
+}
+
+/** Every diagnostic found, for --format output. */
+const collected: ValidationDiagnostic[] = [];
+
+function record(d: ValidationDiagnostic) {
+  collected.push(d);
+}
+
+/** Paths in diagnostics are relative to where the CLI was run. */
+function displayPath(p: string): string {
+  return path.relative(process.cwd(), p) || ".";
+}
 
 // ── Colors (minimal, no dependencies) ────────────────
 
-const isColor = process.stdout.isTTY && !process.env.NO_COLOR;
+const isColor = humanStream.isTTY && !process.env.NO_COLOR;
 const red = (s: string) => (isColor ? `\x1b[31m${s}\x1b[0m` : s);
 const green = (s: string) => (isColor ? `\x1b[32m${s}\x1b[0m` : s);
 const yellow = (s: string) => (isColor ? `\x1b[33m${s}\x1b[0m` : s);
@@ -49,12 +90,16 @@ function parseArgs(argv: string[]) {
   }
 
   const command = args[0];
+  if (command === "explain") {
+    return { command: "explain" as const, code: args[1], component: args[2] };
+  }
   if (command !== "validate") {
     return { command: "unknown" as const, raw: command };
   }
 
-  const dir = args[1] || ".";
+  const dir = args[1] && !args[1].startsWith("--") ? args[1] : ".";
   let type: ContentType | undefined;
+  let format: DiagnosticFormat | undefined;
 
   const typeIdx = args.indexOf("--type");
   if (typeIdx !== -1 && args[typeIdx + 1]) {
@@ -67,20 +112,35 @@ function parseArgs(argv: string[]) {
     }
   }
 
-  return { command: "validate" as const, dir, type };
+  const formatIdx = args.indexOf("--format");
+  if (formatIdx !== -1) {
+    const f = args[formatIdx + 1] ?? "";
+    if (isDiagnosticFormat(f)) {
+      format = f;
+    } else {
+      console.error(red(`Unknown format: "${f}". Expected one of: ${DIAGNOSTIC_FORMATS.join(", ")}`));
+      process.exit(2);
+    }
+  }
+
+  return { command: "validate" as const, dir, type, format };
 }
 
 // ── Help ─────────────────────────────────────────────
 
 function printHelp() {
-  console.log(`
+  print(`
 ${bold("wikipefia-mdx")} — Validate MDX content for Wikipefia
 
 ${bold("USAGE")}
-  wikipefia-mdx validate [dir] [--type <type>]
+  wikipefia-mdx validate [dir] [--type <type>] [--format <format>]
+  wikipefia-mdx explain [code] [component]
 
 ${bold("COMMANDS")}
   validate    Validate MDX files in the given directory
+  explain     Explain a diagnostic code, with examples; without a code,
+              list all codes. For component codes, name a component to
+              see its registry contract instead of the example's.
 
 ${bold("CONTENT TYPES")}
   subject     Single subject repo (config.json + articles/)
@@ -88,14 +148,23 @@ ${bold("CONTENT TYPES")}
   teachers    Unified teachers repo (multiple teacher dirs, each with config.json)
   system      System articles repo (config.json with articles array + articles/)
 
+${bold("OUTPUT FORMATS")}
+  json        Diagnostics as a JSON array
+  sarif       SARIF 2.1.0 (code scanning, editors)
+  github      GitHub Actions annotations
+
 ${bold("OPTIONS")}
   --type      Content type (see above)
+  --format    Print diagnostics to stdout in a machine-readable format
+              (human output moves to stderr)
   --help, -h  Show this help message
 
 ${bold("EXAMPLES")}
   wikipefia-mdx validate . --type subject
   wikipefia-mdx validate . --type teachers
   wikipefia-mdx validate . --type system
+  wikipefia-mdx validate . --type subject --format github
+  wikipefia-mdx explain component/missing-required-prop Figure
 `);
 }
 
@@ -107,8 +176,16 @@ async function validateConfigFile(
   schema: { safeParse: (data: unknown) => any },
   label: string
 ): Promise<boolean> {
+  const file = displayPath(configPath);
   if (!existsSync(configPath)) {
-    console.log(red(`  ✗ ${label} not found at ${configPath}`));
+    print(red(`  ✗ ${label} not found at ${configPath}`));
+    record({
+      message: `${label} not found`,
+      severity: "error",
+      file,
+      category: "config",
+      ruleId: "config/missing-file",
+    });
     return false;
   }
 
@@ -117,21 +194,35 @@ async function validateConfigFile(
     const content = await readFile(configPath, "utf-8");
     raw = JSON.parse(content);
   } catch (err) {
-    console.log(red(`  ✗ ${label} is not valid JSON: ${err}`));
+    print(red(`  ✗ ${label} is not valid JSON: ${err}`));
+    record({
+      message: `Invalid JSON: ${err instanceof Error ? err.message : err}`,
+      severity: "error",
+      file,
+      category: "config",
+      ruleId: "config/invalid-json",
+    });
     return false;
   }
 
   const result = schema.safeParse(raw);
 
   if (!result.success) {
-    console.log(red(`  ✗ ${label} schema validation failed:`));
+    print(red(`  ✗ ${label} schema validation failed:`));
     for (const issue of result.error!.issues) {
-      console.log(red(`    - ${issue.path.join(".")}: ${issue.message}`));
+      print(red(`    - ${issue.path.join(".")}: ${issue.message}`));
+      record({
+        message: `${issue.path.join(".")}: ${issue.message}`,
+        severity: "error",
+        file,
+        category: "config",
+        ruleId: "config/invalid-field",
+      });
     }
     return false;
   }
 
-  console.log(green(`  ✓ ${label} is valid`));
+  print(green(`  ✓ ${label} is valid`));
   return true;
 }
 
@@ -166,8 +257,9 @@ async function validateAllMDX(
       const relativePath = `${prefix}${locale}/${file}`;
 
       const result = await validateMDX(source, {
-        filePath: `${locale}/${file}`,
+        filePath: displayPath(filePath),
       });
+      result.diagnostics.forEach(record);
 
       const fileErrors = result.diagnostics.filter(
         (d) => d.severity === "error"
@@ -177,27 +269,27 @@ async function validateAllMDX(
       );
 
       if (fileErrors.length > 0) {
-        console.log(red(`  ✗ ${relativePath}`));
+        print(red(`  ✗ ${relativePath}`));
         for (const d of fileErrors) {
           const loc = d.line ? ` (line ${d.line})` : "";
-          console.log(red(`    ${d.category}: ${d.message}${loc}`));
+          print(red(`    ${d.ruleId}: ${d.message}${loc}`));
         }
         errors += fileErrors.length;
       }
 
       if (fileWarnings.length > 0) {
         if (fileErrors.length === 0) {
-          console.log(yellow(`  ⚠ ${relativePath}`));
+          print(yellow(`  ⚠ ${relativePath}`));
         }
         for (const d of fileWarnings) {
           const loc = d.line ? ` (line ${d.line})` : "";
-          console.log(yellow(`    ${d.category}: ${d.message}${loc}`));
+          print(yellow(`    ${d.ruleId}: ${d.message}${loc}`));
         }
         warnings += fileWarnings.length;
       }
 
       if (fileErrors.length === 0 && fileWarnings.length === 0) {
-        console.log(green(`  ✓ ${relativePath}`));
+        print(green(`  ✓ ${relativePath}`));
       }
     }
   }
@@ -211,9 +303,16 @@ function checkFrontMdx(articlesDir: string, prefix: string = ""): void {
   for (const locale of LOCALES) {
     const frontPath = path.join(articlesDir, locale, "_front.mdx");
     if (existsSync(frontPath)) {
-      console.log(green(`  ✓ ${prefix}articles/${locale}/_front.mdx exists`));
+      print(green(`  ✓ ${prefix}articles/${locale}/_front.mdx exists`));
     } else if (existsSync(path.join(articlesDir, locale))) {
-      console.log(yellow(`  ⚠ ${prefix}articles/${locale}/_front.mdx is missing`));
+      print(yellow(`  ⚠ ${prefix}articles/${locale}/_front.mdx is missing`));
+      record({
+        message: `articles/${locale}/_front.mdx is missing`,
+        severity: "warning",
+        file: displayPath(path.join(articlesDir, locale)),
+        category: "structure",
+        ruleId: "structure/missing-front",
+      });
     }
   }
 }
@@ -241,31 +340,42 @@ async function findTeacherDirs(rootDir: string): Promise<string[]> {
   return dirs;
 }
 
+function reportMissingArticles(articlesDir: string) {
+  console.error(red(`Articles directory not found: ${articlesDir}`));
+  record({
+    message: "Articles directory not found",
+    severity: "error",
+    file: displayPath(articlesDir),
+    category: "structure",
+    ruleId: "structure/missing-articles-dir",
+  });
+}
+
 // ── Mode: subject ────────────────────────────────────
 
 async function runSubject(rootDir: string): Promise<boolean> {
   let ok = true;
 
-  console.log(bold("▸ Validating subject config.json..."));
+  print(bold("▸ Validating subject config.json..."));
   const configOk = await validateConfigFile(
     path.join(rootDir, "config.json"),
     SubjectConfig,
     "config.json"
   );
   if (!configOk) ok = false;
-  console.log("");
+  print("");
 
   const articlesDir = path.join(rootDir, "articles");
   if (!existsSync(articlesDir)) {
-    console.error(red(`Articles directory not found: ${articlesDir}`));
+    reportMissingArticles(articlesDir);
     return false;
   }
 
-  console.log(bold("▸ Checking structure..."));
+  print(bold("▸ Checking structure..."));
   checkFrontMdx(articlesDir);
-  console.log("");
+  print("");
 
-  console.log(bold("▸ Validating MDX files..."));
+  print(bold("▸ Validating MDX files..."));
   const { errors, warnings, total } = await validateAllMDX(articlesDir);
 
   return ok && errors === 0;
@@ -277,12 +387,19 @@ async function runTeachersUnified(rootDir: string): Promise<boolean> {
   const teacherDirs = await findTeacherDirs(rootDir);
 
   if (teacherDirs.length === 0) {
-    console.log(red("  ✗ No teacher directories found (looking for dirs with config.json)"));
+    print(red("  ✗ No teacher directories found (looking for dirs with config.json)"));
+    record({
+      message: "No teacher directories found (looking for dirs with config.json)",
+      severity: "error",
+      file: displayPath(rootDir),
+      category: "structure",
+      ruleId: "structure/no-teachers",
+    });
     return false;
   }
 
-  console.log(bold(`Found ${teacherDirs.length} teacher(s): ${teacherDirs.join(", ")}`));
-  console.log("");
+  print(bold(`Found ${teacherDirs.length} teacher(s): ${teacherDirs.join(", ")}`));
+  print("");
 
   let allOk = true;
   let totalErrors = 0;
@@ -291,7 +408,7 @@ async function runTeachersUnified(rootDir: string): Promise<boolean> {
 
   for (const dirName of teacherDirs) {
     const teacherDir = path.join(rootDir, dirName);
-    console.log(bold(`▸ Validating teacher: ${dirName}`));
+    print(bold(`▸ Validating teacher: ${dirName}`));
 
     // Validate config
     const configOk = await validateConfigFile(
@@ -304,9 +421,16 @@ async function runTeachersUnified(rootDir: string): Promise<boolean> {
     // Check articles
     const articlesDir = path.join(teacherDir, "articles");
     if (!existsSync(articlesDir)) {
-      console.log(red(`  ✗ ${dirName}/articles/ not found`));
+      print(red(`  ✗ ${dirName}/articles/ not found`));
+      record({
+        message: "Articles directory not found",
+        severity: "error",
+        file: displayPath(articlesDir),
+        category: "structure",
+        ruleId: "structure/missing-articles-dir",
+      });
       allOk = false;
-      console.log("");
+      print("");
       continue;
     }
 
@@ -322,12 +446,12 @@ async function runTeachersUnified(rootDir: string): Promise<boolean> {
     totalFiles += total;
     if (errors > 0) allOk = false;
 
-    console.log("");
+    print("");
   }
 
   // Print totals summary line for the summary section
   if (totalFiles > 0) {
-    console.log(dim(`  ${teacherDirs.length} teacher(s), ${totalFiles} file(s) checked`));
+    print(dim(`  ${teacherDirs.length} teacher(s), ${totalFiles} file(s) checked`));
   }
 
   return allOk && totalErrors === 0;
@@ -338,38 +462,45 @@ async function runTeachersUnified(rootDir: string): Promise<boolean> {
 async function runSystem(rootDir: string): Promise<boolean> {
   let ok = true;
 
-  console.log(bold("▸ Validating system config.json..."));
+  print(bold("▸ Validating system config.json..."));
   const configOk = await validateConfigFile(
     path.join(rootDir, "config.json"),
     SystemConfig,
     "config.json"
   );
   if (!configOk) ok = false;
-  console.log("");
+  print("");
 
   const articlesDir = path.join(rootDir, "articles");
   if (!existsSync(articlesDir)) {
-    console.error(red(`Articles directory not found: ${articlesDir}`));
+    reportMissingArticles(articlesDir);
     return false;
   }
 
-  console.log(bold("▸ Checking structure..."));
+  print(bold("▸ Checking structure..."));
   // System articles don't require _front.mdx — just check locales exist
   let hasLocale = false;
   for (const locale of LOCALES) {
     const localeDir = path.join(articlesDir, locale);
     if (existsSync(localeDir)) {
-      console.log(green(`  ✓ articles/${locale}/ exists`));
+      print(green(`  ✓ articles/${locale}/ exists`));
       hasLocale = true;
     }
   }
   if (!hasLocale) {
-    console.log(red("  ✗ No locale directories found in articles/"));
+    print(red("  ✗ No locale directories found in articles/"));
+    record({
+      message: "No locale directories found in articles/",
+      severity: "error",
+      file: displayPath(articlesDir),
+      category: "structure",
+      ruleId: "structure/no-locales",
+    });
     ok = false;
   }
-  console.log("");
+  print("");
 
-  console.log(bold("▸ Validating MDX files..."));
+  print(bold("▸ Validating MDX files..."));
   const { errors, warnings, total } = await validateAllMDX(articlesDir);
 
   return ok && errors === 0;
@@ -380,31 +511,114 @@ async function runSystem(rootDir: string): Promise<boolean> {
 async function runSingleTeacher(rootDir: string): Promise<boolean> {
   let ok = true;
 
-  console.log(bold("▸ Validating teacher config.json..."));
+  print(bold("▸ Validating teacher config.json..."));
   const configOk = await validateConfigFile(
     path.join(rootDir, "config.json"),
     TeacherConfig,
     "config.json"
   );
   if (!configOk) ok = false;
-  console.log("");
+  print("");
 
   const articlesDir = path.join(rootDir, "articles");
   if (!existsSync(articlesDir)) {
-    console.error(red(`Articles directory not found: ${articlesDir}`));
+    reportMissingArticles(articlesDir);
     return false;
   }
 
-  console.log(bold("▸ Checking structure..."));
+  print(bold("▸ Checking structure..."));
   checkFrontMdx(articlesDir);
-  console.log("");
+  print("");
 
-  console.log(bold("▸ Validating MDX files..."));
+  print(bold("▸ Validating MDX files..."));
   const { errors, warnings, total } = await validateAllMDX(articlesDir);
 
   return ok && errors === 0;
 }
 
+// ── Mode: explain ────────────────────────────────────
+
+function indent(block: string, by: string = "    "): string {
+  return block
+    .split("\n")
+    .map((l) => by + l)
+    .join("\n");
+}
+
+function formatContract(name: string, contract: ComponentContract): string {
+  const lines = [`<${name}>`];
+  const props = Object.entries(contract.props);
+  if (props.length === 0) {
+    lines.push("  props:    (none)");
+  } else {
+    lines.push("  props:");
+    const width = Math.max(...props.map(([p]) => p.length));
+    for (const [prop, c] of props) {
+      const parts = [c.enum ? c.enum.map((v) => `"${v}"`).join(" | ") : c.type ?? "any"];
+      if (c.required) parts.push("required");
+      lines.push(`    ${prop.padEnd(width)}  ${parts.join(", ")}`);
+    }
+  }
+  if (contract.parent) lines.push(`  parent:   <${contract.parent}>`);
+  if (contract.childrenRequired) lines.push("  children: required");
+  return lines.join("\n");
+}
+
+function listCodes() {
+  print(bold("Diagnostic codes"));
+  const width = Math.max(...Object.keys(diagnosticCatalog).map((c) => c.length));
+  for (const [code, entry] of Object.entries(diagnosticCatalog)) {
+    print(`  ${code.padEnd(width)}  ${dim(entry.title)}`);
+  }
+  print("");
+  print(dim("Run `wikipefia-mdx explain <code>` for details."));
+}
+
+function runExplain(code: string | undefined, componentName: string | undefined): boolean {
+  print("");
+  if (!code) {
+    listCodes();
+    return true;
+  }
+  if (!isDiagnosticCode(code)) {
+    console.error(red(`Unknown diagnostic code: "${code}".`));
+    print("");
+    listCodes();
+    return false;
+  }
+  if (componentName && !(componentName in componentRegistry)) {
+    console.error(red(`Unknown component: "${componentName}".`));
+    return false;
+  }
+
+  const entry: DiagnosticExplanation = diagnosticCatalog[code];
+  const severity = entry.severity === "error" ? red("error") : yellow("warning");
+  print(`${bold(code)} ${dim(`(${entry.category},`)} ${severity}${dim(")")}`);
+  print(entry.title);
+  print("");
+  print(indent(entry.description, "  "));
+
+  if (entry.bad) {
+    print("");
+    print(red("  ✗ Triggers it:"));
+    print(indent(entry.bad));
+  }
+  if (entry.good) {
+    print("");
+    print(green("  ✓ Fixed:"));
+    print(indent(entry.good));
+  }
+
+  const contractName = componentName ?? entry.component;
+  if (entry.category === "component" && contractName) {
+    print("");
+    print(bold("  Registry contract:"));
+    print(indent(formatContract(contractName, componentRegistry[contractName])));
+  }
+  print("");
+  return true;
+}
+
 // ── Main ─────────────────────────────────────────────
 
 async function main() {
@@ -420,14 +634,18 @@ async function main() {
     process.exit(2);
   }
 
-  const { dir, type } = parsed;
+  if (parsed.command === "explain") {
+    process.exit(runExplain(parsed.code, parsed.component) ? 0 : 2);
+  }
+
+  const { dir, type, format } = parsed;
   const rootDir = path.resolve(dir);
 
-  console.log("");
-  console.log(bold("╔══════════════════════════════════════════════╗"));
-  console.log(bold("║  WIKIPEFIA MDX VALIDATOR                     ║"));
-  console.log(bold("╚══════════════════════════════════════════════╝"));
-  console.log("");
+  print("");
+  print(bold("╔══════════════════════════════════════════════╗"));
+  print(bold("║  WIKIPEFIA MDX VALIDATOR                     ║"));
+  print(bold("╚══════════════════════════════════════════════╝"));
+  print("");
 
   let success: boolean;
 
@@ -448,28 +666,38 @@ async function main() {
       // No type specified — just validate MDX files
       const articlesDir = path.join(rootDir, "articles");
       if (!existsSync(articlesDir)) {
-        console.error(red(`Articles directory not found: ${articlesDir}`));
+        reportMissingArticles(articlesDir);
         console.error(dim(`  Expected layout: ${dir}/articles/{locale}/*.mdx`));
-        process.exit(1);
+        success = false;
+        break;
       }
-      console.log(bold("▸ Validating MDX files..."));
+      print(bold("▸ Validating MDX files..."));
       const { errors } = await validateAllMDX(articlesDir);
       success = errors === 0;
     }
   }
 
+  if (format) {
+    process.stdout.write(formatDiagnostics(collected, format) + "\n");
+  }
+
   // Summary
-  console.log("");
-  console.log("─".repeat(48));
-  console.log("");
+  print("");
+  print("─".repeat(48));
+  print("");
+
+  if (collected.length > 0) {
+    print(dim("Run `wikipefia-mdx explain <code>` to see what a code means and how to fix it."));
+    print("");
+  }
 
   if (!success) {
-    console.log(red("✗ Validation FAILED"));
-    console.log("");
+    print(red("✗ Validation FAILED"));
+    print("");
     process.exit(1);
   } else {
-    console.log(green("✓ Validation passed"));
-    console.log("");
+    print(green("✓ Validation passed"));
+    print("");
   }
 }
 
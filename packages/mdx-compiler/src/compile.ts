@@ -13,12 +13,23 @@ import rehypeAutolinkHeadings from "rehype-autolink-headings";
 import rehypeKatex from "rehype-katex";
 
 import { rehypeExtractToc, type TocEntry } from "./plugins/rehype-extract-toc.js";
+import { rehypeCollectLinks, type LinkEntry } from "./plugins/rehype-collect-links.js";
+import { rehypeCollectAssets, type AssetEntry } from "./plugins/rehype-collect-assets.js";
+import {
+  remarkExtractSections,
+  type RawSection,
+  type SectionEntry,
+} from "./plugins/remark-extract-sections.js";
 import {
   remarkValidateComponents,
   type ComponentDiagnostic,
 } from "./plugins/remark-validate-components.js";
+import type { DiagnosticCode } from "./diagnostics.js";
 
 export { type TocEntry } from "./plugins/rehype-extract-toc.js";
+export { type LinkEntry } from "./plugins/rehype-collect-links.js";
+export { type AssetEntry } from "./plugins/rehype-collect-assets.js";
+export { type SectionEntry } from "./plugins/remark-extract-sections.js";
 export { type ComponentDiagnostic } from "./plugins/remark-validate-components.js";
 
 export interface CompileResult {
@@ -26,6 +37,12 @@ export interface CompileResult {
   compiled: string;
   /** Extracted table of contents. */
   toc: TocEntry[];
+  /** Every link in the article, in document order. */
+  links: LinkEntry[];
+  /** Every image referenced by relative path, in document order. */
+  assets: AssetEntry[];
+  /** Plain text per heading section, for full-text search. */
+  sections: SectionEntry[];
   /** Component usage diagnostics (warnings / errors). */
   diagnostics: ComponentDiagnostic[];
 }
@@ -59,11 +76,14 @@ export async function compileMDX(
   const { filePath = "<unknown>", validateComponents = true } = options;
 
   const tocStore: TocEntry[] = [];
+  const linkStore: LinkEntry[] = [];
+  const assetStore: AssetEntry[] = [];
+  const sectionStore: RawSection[] = [];
   const diagnostics: ComponentDiagnostic[] = [];
 
   // Build remark plugins
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const remarkPlugins: any[] = [remarkGfm, remarkMath];
+  const remarkPlugins: any[] = [remarkGfm, remarkMath, remarkExtractSections(sectionStore)];
 
   if (validateComponents) {
     remarkPlugins.push(
@@ -80,6 +100,8 @@ export async function compileMDX(
       remarkPlugins,
       rehypePlugins: [
         rehypeSlug,
+        rehypeCollectLinks(linkStore),
+        rehypeCollectAssets(assetStore),
         [rehypeAutolinkHeadings, { behavior: "wrap" }],
         rehypeKatex,
         rehypeExtractToc(tocStore),
@@ -89,6 +111,14 @@ export async function compileMDX(
     return {
       compiled: String(vfile),
       toc: tocStore,
+      links: linkStore,
+      assets: assetStore,
+      // The ToC lists the same headings in the same order, with ids
+      sections: sectionStore.map(({ headingIndex, heading, text }) => ({
+        id: headingIndex !== undefined ? tocStore[headingIndex]?.id || undefined : undefined,
+        heading,
+        text,
+      })),
       diagnostics,
     };
   } catch (err: unknown) {
@@ -118,6 +148,8 @@ export async function compileMDX(
  * Structured MDX compilation error with file context.
  */
 export class MDXCompileError extends Error {
+  /** Catalog code — every compile failure is a syntax error. */
+  readonly code: DiagnosticCode = "mdx/syntax-error";
   filePath: string;
   line?: number;
   column?: number;
@@ -158,6 +190,7 @@ export class MDXCompileError extends Error {
     lines.push(`Line:   ${this.line ?? "?"}, Column: ${this.column ?? "?"}`);
     lines.push(`Reason: ${this.message}`);
 
+    lines.push(`Code:   ${this.code} (run \`wikipefia-mdx explain ${this.code}\` for help)`);
     if (this.ruleId) {
       lines.push(`Rule:   ${this.ruleId} (${this.source || "unknown"})`);
     }
@@ -0,0 +1,400 @@
+/**
+ * Diagnostic catalog — every code the validator, the compiler and the
+ * main project's content build can report, with an explanation.
+ *
+ * Codes are stable: tools match on them (SARIF rule ids, CI annotations)
+ * and authors look them up with `wikipefia-mdx explain <code>`. Rename a
+ * check's message freely, but never its code; add a new code instead.
+ */
+
+/**
+ * Diagnostic category. The last five are only produced by whole-site
+ * checks (the CLI's config validation and the main project's build).
+ */
+export type DiagnosticCategory =
+  | "frontmatter"
+  | "mdx-syntax"
+  | "component"
+  | "structure"
+  | "config"
+  | "route"
+  | "reference"
+  | "link"
+  | "asset";
+
+export interface DiagnosticExplanation {
+  category: DiagnosticCategory;
+  /** Severity the check reports with. */
+  severity: "error" | "warning";
+  /** One-line summary. */
+  title: string;
+  /** What triggers the diagnostic and how to fix it. */
+  description: string;
+  /** Source that triggers the diagnostic. */
+  bad?: string;
+  /** The same source, fixed. */
+  good?: string;
+  /**
+   * Component the examples use — `explain` prints its registry contract.
+   * Only set for component/* codes.
+   */
+  component?: string;
+}
+
+export const diagnosticCatalog = {
+  // ── Frontmatter ─────────────────────────────────
+  "frontmatter/parse-error": {
+    category: "frontmatter",
+    severity: "error",
+    title: "Frontmatter is not valid YAML",
+    description:
+      "The block between the leading --- lines could not be parsed as YAML.\n" +
+      "Usually an unquoted value containing a colon, or inconsistent indentation.\n" +
+      "Quote values with special characters and indent nested keys with spaces.",
+    bad: `---\nauthor: I. Ivanov: lecturer\n---`,
+    good: `---\nauthor: "I. Ivanov: lecturer"\n---`,
+  },
+  "frontmatter/invalid-field": {
+    category: "frontmatter",
+    severity: "error",
+    title: "Frontmatter field is missing or has the wrong value",
+    description:
+      "The frontmatter parsed, but does not match the article schema.\n" +
+      "The message names the field. title and keywords need all three locales\n" +
+      "(ru, en, cz), and difficulty only accepts beginner, intermediate or advanced.",
+    bad: `---\ntitle: {en: "Sets"}\nslug: sets\ndifficulty: easy\n---`,
+    good: `---\ntitle: {ru: "Множества", en: "Sets", cz: "Množiny"}\nslug: sets\nkeywords: {ru: [], en: ["set"], cz: []}\ncreated: "2025-01-01"\ndifficulty: beginner\n---`,
+  },
+
+  // ── MDX ─────────────────────────────────────────
+  "mdx/syntax-error": {
+    category: "mdx-syntax",
+    severity: "error",
+    title: "The file is not valid MDX",
+    description:
+      "MDX could not parse the file. Common causes: an unclosed JSX tag,\n" +
+      "a bare { or < in prose (write \\{ and &lt;), or an HTML comment\n" +
+      "(MDX only accepts {/* comments */}). The error points at the first\n" +
+      "character the parser could not handle.",
+    bad: `<Callout type="info">\nUse {x} for sets.\n`,
+    good: `<Callout type="info">\nUse \\{x\\} for sets.\n</Callout>`,
+  },
+
+  // ── Components ──────────────────────────────────
+  "component/unknown-component": {
+    category: "component",
+    severity: "error",
+    title: "Component is not in the registry",
+    description:
+      "PascalCase JSX tags are components, and only components listed in the\n" +
+      "registry can be rendered. Check the spelling, or add the contract to\n" +
+      "the registry before using a new component.",
+    bad: `<Callout type="info">…</Callout>\n<Warning>Careful!</Warning>`,
+    good: `<Callout type="warning">Careful!</Callout>`,
+    component: "Callout",
+  },
+  "component/missing-required-prop": {
+    category: "component",
+    severity: "error",
+    title: "Component is missing a required prop",
+    description:
+      "The registry contract marks this prop as required, and the component\n" +
+      "cannot render without it. Add the prop named in the message.",
+    bad: `<Tabs>\n  <Tab>Content</Tab>\n</Tabs>`,
+    good: `<Tabs>\n  <Tab label="Proof">Content</Tab>\n</Tabs>`,
+    component: "Tab",
+  },
+  "component/invalid-enum-value": {
+    category: "component",
+    severity: "error",
+    title: "Prop value is not one of the allowed values",
+    description:
+      "The registry contract restricts this prop to a fixed set of values.\n" +
+      "Pick one of the values listed in the message.",
+    bad: `<Callout type="danger">Careful!</Callout>`,
+    good: `<Callout type="warning">Careful!</Callout>`,
+    component: "Callout",
+  },
+  "component/invalid-prop-type": {
+    category: "component",
+    severity: "error",
+    title: "Prop value has the wrong type",
+    description:
+      "The registry contract declares this prop as a string, number or boolean,\n" +
+      "and the value has another type. A quoted value is always a string:\n" +
+      "write numbers and booleans as expressions, x={10} and correct={true}.\n" +
+      "Expressions that are not literals are not checked.",
+    bad: `<DBox x="10" y="ten" w={80} h={40} />`,
+    good: `<DBox x={10} y={20} w={80} h={40} />`,
+    component: "DBox",
+  },
+  "component/unknown-prop": {
+    category: "component",
+    severity: "warning",
+    title: "Component does not accept this prop",
+    description:
+      "The prop is not in the component's registry contract, so it is ignored\n" +
+      "when rendering. Usually a typo or a prop from another component.",
+    bad: `<Figure src="/img/graph.png" alt="A graph" widht={400} />`,
+    good: `<Figure src="/img/graph.png" alt="A graph" width={400} />`,
+    component: "Figure",
+  },
+  "component/invalid-nesting": {
+    category: "component",
+    severity: "error",
+    title: "Component is used outside its required parent",
+    description:
+      "Some components only work as direct children of another component\n" +
+      "(their contract sets a parent). Wrap the component in that parent.",
+    bad: `<Tab label="Proof">Content</Tab>`,
+    good: `<Tabs>\n  <Tab label="Proof">Content</Tab>\n</Tabs>`,
+    component: "Tab",
+  },
+  "component/missing-children": {
+    category: "component",
+    severity: "error",
+    title: "Component needs children but has none",
+    description:
+      "The registry contract marks this component as requiring children, and\n" +
+      "it was self-closed or left empty. Put its content between the opening\n" +
+      "and closing tags.",
+    bad: `<Quiz />`,
+    good: `<Quiz>\n  <Question text="2 + 2 = ?">\n    <Option value="4" correct />\n  </Question>\n</Quiz>`,
+    component: "Quiz",
+  },
+
+  // ── Structure ───────────────────────────────────
+  "structure/slug-mismatch": {
+    category: "structure",
+    severity: "error",
+    title: "Frontmatter slug does not match the file name",
+    description:
+      "An article's slug must equal its file name without .mdx, so every\n" +
+      "locale of the article resolves to the same URL. Rename the file or\n" +
+      "change the slug (_front.mdx is exempt).",
+    bad: `# articles/en/graph-basics.mdx\n---\nslug: graphs\n---`,
+    good: `# articles/en/graphs.mdx\n---\nslug: graphs\n---`,
+  },
+  "structure/missing-front": {
+    category: "structure",
+    severity: "warning",
+    title: "Locale has no _front.mdx",
+    description:
+      "Subjects and teachers show _front.mdx as their landing page. Without\n" +
+      "it, the page for this locale has no introduction.",
+    bad: `articles/en/graphs.mdx`,
+    good: `articles/en/_front.mdx\narticles/en/graphs.mdx`,
+  },
+  "structure/missing-articles-dir": {
+    category: "structure",
+    severity: "error",
+    title: "No articles/ directory",
+    description:
+      "Content repos keep their MDX files in articles/<locale>/ next to\n" +
+      "config.json. Check the directory passed to the validator.",
+    bad: `config.json\nen/graphs.mdx`,
+    good: `config.json\narticles/en/graphs.mdx`,
+  },
+  "structure/no-locales": {
+    category: "structure",
+    severity: "error",
+    title: "articles/ has no locale directories",
+    description:
+      "Articles must be grouped by locale: articles/en/, articles/ru/ or\n" +
+      "articles/cz/. Files directly inside articles/ are not picked up.",
+    bad: `articles/about.mdx`,
+    good: `articles/en/about.mdx`,
+  },
+  "structure/no-teachers": {
+    category: "structure",
+    severity: "error",
+    title: "No teacher directories found",
+    description:
+      "A unified teachers repo holds one directory per teacher, each with its\n" +
+      "own config.json. Validate a single teacher with --type teacher instead.",
+    bad: `config.json\narticles/en/exam-tips.mdx`,
+    good: `ivanov/config.json\nivanov/articles/en/exam-tips.mdx`,
+  },
+
+  // ── Config ──────────────────────────────────────
+  "config/missing-file": {
+    category: "config",
+    severity: "error",
+    title: "config.json is missing",
+    description:
+      "Every subject, teacher and system repo needs a config.json at its root.",
+  },
+  "config/invalid-json": {
+    category: "config",
+    severity: "error",
+    title: "config.json is not valid JSON",
+    description:
+      "The file could not be parsed. Look for trailing commas, comments or\n" +
+      "single-quoted strings — JSON allows none of them.",
+    bad: `{ "slug": "discrete-math", }`,
+    good: `{ "slug": "discrete-math" }`,
+  },
+  "config/invalid-field": {
+    category: "config",
+    severity: "error",
+    title: "config.json field is missing or has the wrong value",
+    description:
+      "The config parsed, but does not match the schema for its content type.\n" +
+      "The message starts with the path of the offending field.",
+    bad: `{ "slug": "Discrete Math" }`,
+    good: `{ "slug": "discrete-math" }`,
+  },
+
+  // ── Routes (content build) ──────────────────────
+  "route/reserved-slug": {
+    category: "route",
+    severity: "error",
+    title: "Slug is reserved by the app",
+    description:
+      "Subjects, teachers and system articles share one URL namespace with\n" +
+      "the app's own routes (api, _next, not-found, search, assets,\n" +
+      "feeds). Pick another slug.",
+    bad: `{ "slug": "search" }`,
+    good: `{ "slug": "search-tips" }`,
+  },
+  "route/slug-collision": {
+    category: "route",
+    severity: "error",
+    title: "Two entities claim the same slug",
+    description:
+      "Subjects, teachers and system articles are all served at /<slug>, so\n" +
+      "their slugs must be unique across every content repo.",
+    bad: `subjects/algebra/config.json:  { "slug": "algebra" }\nsystem/config.json:  { "articles": [{ "slug": "algebra" }] }`,
+    good: `subjects/algebra/config.json:  { "slug": "algebra" }\nsystem/config.json:  { "articles": [{ "slug": "algebra-guide" }] }`,
+  },
+  "route/duplicate-article": {
+    category: "route",
+    severity: "error",
+    title: "Article is listed in more than one category",
+    description:
+      "Each article belongs to exactly one category of its subject.",
+    bad: `"categories": [\n  { "slug": "basics", "articles": ["graphs"] },\n  { "slug": "advanced", "articles": ["graphs"] }\n]`,
+    good: `"categories": [\n  { "slug": "basics", "articles": ["graphs"] },\n  { "slug": "advanced", "articles": [] }\n]`,
+  },
+
+  // ── References (content build) ──────────────────
+  "reference/missing-article": {
+    category: "reference",
+    severity: "error",
+    title: "Category or section lists an article that does not exist",
+    description:
+      "Every slug in a category or section must have an MDX file with that\n" +
+      "slug in at least one locale. Fix the typo or add the article.",
+    bad: `"articles": ["graph"]   # file is articles/en/graphs.mdx`,
+    good: `"articles": ["graphs"]`,
+  },
+  "reference/orphan-article": {
+    category: "reference",
+    severity: "error",
+    title: "Article is not listed anywhere",
+    description:
+      "Articles only appear in navigation through a category (subjects) or a\n" +
+      "section (teachers that use sections). Add the slug to one.",
+    bad: `articles/en/trees.mdx exists, "articles": ["graphs"]`,
+    good: `"articles": ["graphs", "trees"]`,
+  },
+  "reference/dangling-prerequisite": {
+    category: "reference",
+    severity: "error",
+    title: "Prerequisite is not a known article",
+    description:
+      "prerequisites lists article slugs of the same subject or teacher, or\n" +
+      "<subject-or-teacher>/<article> for an article elsewhere.\n" +
+      "Check the spelling, or remove the entry.",
+    bad: `prerequisites: [graph, linear-algebra/matrix]`,
+    good: `prerequisites: [graphs, linear-algebra/matrices]`,
+  },
+  "reference/prerequisite-cycle": {
+    category: "reference",
+    severity: "error",
+    title: "Prerequisites form a cycle",
+    description:
+      "Following prerequisites from an article leads back to it, so there is\n" +
+      "no order to read them in. Remove the entry that points backwards —\n" +
+      "usually the one in the more basic article.",
+    bad: `graphs.mdx: prerequisites: [trees]\ntrees.mdx:  prerequisites: [graphs]`,
+    good: `graphs.mdx: prerequisites: []\ntrees.mdx:  prerequisites: [graphs]`,
+  },
+  "reference/dangling-tutor": {
+    category: "reference",
+    severity: "error",
+    title: "Tutor is not a known teacher",
+    description: "tutors lists teacher slugs. Check the spelling against the teachers repo.",
+    bad: `tutors: [ivanoff]`,
+    good: `tutors: [ivanov]`,
+  },
+
+  // ── Links (content build) ───────────────────────
+  "link/broken-link": {
+    category: "link",
+    severity: "error",
+    title: "Internal link points at a page that does not exist",
+    description:
+      "Internal links are resolved like the app resolves URLs: relative to\n" +
+      "the page, without a locale prefix. Link to /<subject>/<article>.",
+    bad: `[Graphs](/en/discrete-math/graphs)`,
+    good: `[Graphs](/discrete-math/graphs)`,
+  },
+  "link/broken-anchor": {
+    category: "link",
+    severity: "error",
+    title: "Link anchor does not match a heading on the target page",
+    description:
+      "The part after # must be the id of a heading in the locale the target\n" +
+      "page renders. Ids are the slugged heading text; the message lists them.",
+    bad: `[Trees](/discrete-math/graphs#Trees)`,
+    good: `[Trees](/discrete-math/graphs#trees)`,
+  },
+  "link/external-unreachable": {
+    category: "link",
+    severity: "warning",
+    title: "External link did not respond successfully",
+    description:
+      "Only checked with --check-external. The URL failed or returned an\n" +
+      "error status; it may be temporarily down, or moved for good.",
+  },
+
+  // ── Assets (content build) ──────────────────────
+  "asset/missing-file": {
+    category: "asset",
+    severity: "error",
+    title: "Referenced image does not exist",
+    description:
+      "Relative image paths are resolved from the MDX file's directory (a\n" +
+      "teacher photo from the teacher's directory). Check the path and that\n" +
+      "the file is committed to the content repo.",
+    bad: `# articles/en/graphs.mdx, image in images/\n<Figure src="images/k4.png" alt="K4" />`,
+    good: `<Figure src="../../images/k4.png" alt="K4" />`,
+  },
+  "asset/unsupported-type": {
+    category: "asset",
+    severity: "error",
+    title: "Image format is not supported",
+    description:
+      "The build publishes PNG, JPEG, GIF, WebP and SVG files and reads\n" +
+      "their dimensions. Convert other formats, or link to the file instead.",
+    bad: `![Sketch](./sketch.tiff)`,
+    good: `![Sketch](./sketch.png)`,
+  },
+  "asset/outside-content": {
+    category: "asset",
+    severity: "error",
+    title: "Image path points outside the content directory",
+    description:
+      "Assets must live in the content repos. A path that climbs out of\n" +
+      "content/ would publish files from the build machine.",
+    bad: `<Figure src="../../../../../secrets.png" alt="" />`,
+    good: `<Figure src="../../images/diagram.png" alt="Diagram" />`,
+  },
+} as const satisfies Record<string, DiagnosticExplanation>;
+
+export type DiagnosticCode = keyof typeof diagnosticCatalog;
+
+export function isDiagnosticCode(value: string): value is DiagnosticCode {
+  return Object.hasOwn(diagnosticCatalog, value);
+}
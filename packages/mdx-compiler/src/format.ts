@@ -0,0 +1,107 @@
+/**
+ * formatDiagnostics — Render diagnostics for machines instead of people.
+ *
+ *   json    The ValidationDiagnostic records as a JSON array
+ *   sarif   SARIF 2.1.0, for code scanning and editor integrations
+ *   github  GitHub Actions workflow commands (inline PR annotations)
+ *
+ * Shared by the wikipefia-mdx CLI and the main project's content build,
+ * so both emit exactly the same shapes.
+ */
+
+import type { ValidationDiagnostic } from "./validate.js";
+import { COMPILER_VERSION } from "./version.js";
+
+export const DIAGNOSTIC_FORMATS = ["json", "sarif", "github"] as const;
+export type DiagnosticFormat = (typeof DIAGNOSTIC_FORMATS)[number];
+
+export function isDiagnosticFormat(value: string): value is DiagnosticFormat {
+  return (DIAGNOSTIC_FORMATS as readonly string[]).includes(value);
+}
+
+/** SARIF and GitHub both want forward-slash paths. */
+function toUri(file: string): string {
+  return file.split("\\").join("/");
+}
+
+function toSarif(diagnostics: ValidationDiagnostic[]): string {
+  const ruleIds = [...new Set(diagnostics.map((d) => d.ruleId))].sort();
+
+  const results = diagnostics.map((d) => ({
+    ruleId: d.ruleId,
+    ruleIndex: ruleIds.indexOf(d.ruleId),
+    level: d.severity,
+    message: { text: d.message },
+    locations: [
+      {
+        physicalLocation: {
+          artifactLocation: { uri: toUri(d.file) },
+          ...(d.line !== undefined && {
+            region: {
+              startLine: d.line,
+              ...(d.column !== undefined && { startColumn: d.column }),
+            },
+          }),
+        },
+      },
+    ],
+    properties: { category: d.category },
+  }));
+
+  const log = {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: "wikipefia-mdx",
+            version: COMPILER_VERSION,
+            rules: ruleIds.map((id) => ({ id })),
+          },
+        },
+        results,
+      },
+    ],
+  };
+  return JSON.stringify(log, null, 2);
+}
+
+// https://docs.github.com/actions/using-workflows/workflow-commands-for-github-actions
+function escapeData(value: string): string {
+  return value.replace(/%/g, "%25").replace(/\r/g, "%0D").replace(/\n/g, "%0A");
+}
+
+function escapeProperty(value: string): string {
+  return escapeData(value).replace(/:/g, "%3A").replace(/,/g, "%2C");
+}
+
+function toGithub(diagnostics: ValidationDiagnostic[]): string {
+  return diagnostics
+    .map((d) => {
+      const props = [`file=${escapeProperty(toUri(d.file))}`];
+      if (d.line !== undefined) props.push(`line=${d.line}`);
+      if (d.column !== undefined) props.push(`col=${d.column}`);
+      props.push(`title=${escapeProperty(d.ruleId)}`);
+      return `::${d.severity} ${props.join(",")}::${escapeData(d.message)}`;
+    })
+    .join("\n");
+}
+
+/**
+ * Render diagnostics in the given format. The result has no trailing
+ * newline; callers write it to stdout as the only machine-readable output.
+ */
+export function formatDiagnostics(
+  diagnostics: ValidationDiagnostic[],
+  format: DiagnosticFormat
+): string {
+  switch (format) {
+    case "json":
+      return JSON.stringify(diagnostics, null, 2);
+    case "sarif":
+      return toSarif(diagnostics);
+    case "github":
+      return toGithub(diagnostics);
+  }
+}
@@ -3,7 +3,7 @@
  *
  * This package is the single source of truth for:
  *   - MDX compilation pipeline (plugins, config)
- *   - Content schemas (Zod)
+ *   - Content schemas (Zod), including the content manifest
  *   - Component contracts (prop types, nesting rules)
  *   - Validation logic
  *
@@ -13,15 +13,26 @@
  */
 
 // ── Core ─────────────────────────────────────────────
+export { COMPILER_VERSION } from "./version.js";
+
 export {
   compileMDX,
   MDXCompileError,
   type CompileResult,
   type CompileOptions,
   type TocEntry,
+  type LinkEntry,
+  type AssetEntry,
+  type SectionEntry,
   type ComponentDiagnostic,
 } from "./compile.js";
 
+export {
+  createCompilePool,
+  type CompilePool,
+  type CompilePoolOptions,
+} from "./pool.js";
+
 export {
   validateMDX,
   validateDirectory,
@@ -30,6 +41,21 @@ export {
   type ValidateOptions,
 } from "./validate.js";
 
+export {
+  diagnosticCatalog,
+  isDiagnosticCode,
+  type DiagnosticCode,
+  type DiagnosticCategory,
+  type DiagnosticExplanation,
+} from "./diagnostics.js";
+
+export {
+  formatDiagnostics,
+  isDiagnosticFormat,
+  DIAGNOSTIC_FORMATS,
+  type DiagnosticFormat,
+} from "./format.js";
+
 // ── Schemas ──────────────────────────────────────────
 export {
   LocalizedString,
@@ -42,6 +68,23 @@ export { ArticleFrontmatter } from "./schemas/article.js";
 export { SubjectConfig } from "./schemas/subject.js";
 export { TeacherConfig } from "./schemas/teacher.js";
 export { SystemArticleEntry, SystemConfig } from "./schemas/system.js";
+export {
+  MANIFEST_VERSION,
+  ContentAsset,
+  LocaleAssets,
+  ArticleHistory,
+  LocaleHistory,
+  Backlink,
+  LocaleBacklinks,
+  PrerequisiteRef,
+  ArticleManifestEntry,
+  SubjectManifest,
+  TeacherManifest,
+  SystemArticleManifest,
+  RouteIndexEntry,
+  RouteIndex,
+  ContentManifest,
+} from "./schemas/manifest.js";
 
 // ── Component Registry ───────────────────────────────
 export {
@@ -55,3 +98,5 @@ export {
 // ── Plugins (for advanced use) ───────────────────────
 export { remarkValidateComponents } from "./plugins/remark-validate-components.js";
 export { rehypeExtractToc } from "./plugins/rehype-extract-toc.js";
+export { rehypeCollectLinks } from "./plugins/rehype-collect-links.js";
+export { rehypeCollectAssets } from "./plugins/rehype-collect-assets.js";
@@ -0,0 +1,62 @@
+/**
+ * rehype-collect-assets — Custom rehype plugin that collects every image
+ * an article references by relative path, so the build can check the
+ * file exists, publish it and measure it.
+ *
+ * Picks up Markdown images and literal `src` values on `<Figure>` and
+ * `<img>`. Absolute paths (served from public/) and URLs are left alone.
+ */
+
+import { visit } from "unist-util-visit";
+
+export interface AssetEntry {
+  /** The path as written, relative to the MDX file. */
+  src: string;
+  line?: number;
+  column?: number;
+}
+
+/** JSX elements whose `src` attribute points at an image. */
+const IMAGE_COMPONENTS = new Set(["Figure", "img"]);
+
+function isRelative(src: string): boolean {
+  return !/^([a-z][a-z0-9+.-]*:|\/|#)/i.test(src);
+}
+
+/**
+ * Create a rehype plugin that collects asset references into the provided
+ * array. The caller passes a mutable array that gets populated during
+ * processing.
+ */
+export function rehypeCollectAssets(assetStore: AssetEntry[]) {
+  return () => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return (tree: any) => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      visit(tree, (node: any) => {
+        let src: unknown;
+
+        if (node.type === "element" && node.tagName === "img") {
+          src = node.properties?.src;
+        } else if (
+          (node.type === "mdxJsxTextElement" || node.type === "mdxJsxFlowElement") &&
+          IMAGE_COMPONENTS.has(node.name)
+        ) {
+          // Only literal values — expressions can't be resolved statically
+          src = node.attributes?.find(
+            (a: { type: string; name?: string }) =>
+              a.type === "mdxJsxAttribute" && a.name === "src"
+          )?.value;
+        }
+
+        if (typeof src !== "string" || src === "" || !isRelative(src)) return;
+
+        assetStore.push({
+          src,
+          line: node.position?.start?.line,
+          column: node.position?.start?.column,
+        });
+      });
+    };
+  };
+}
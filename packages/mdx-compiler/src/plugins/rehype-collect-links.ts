@@ -0,0 +1,67 @@
+/**
+ * rehype-collect-links — Custom rehype plugin that collects every link
+ * an article makes, so the build can check them against real routes and
+ * index which articles link to which.
+ *
+ * Picks up Markdown links and literal `<a href="...">` JSX. Must run
+ * before rehype-autolink-headings, whose self-links aren't authored.
+ */
+
+import { visit } from "unist-util-visit";
+import { toString } from "hast-util-to-string";
+
+export interface LinkEntry {
+  href: string;
+  /** "external" if the href has a scheme (https:, mailto:) or starts with //. */
+  kind: "internal" | "external";
+  /** Visible text of the link, whitespace collapsed; empty for image-only links. */
+  text: string;
+  line?: number;
+  column?: number;
+}
+
+function classify(href: string): LinkEntry["kind"] {
+  return /^([a-z][a-z0-9+.-]*:|\/\/)/i.test(href) ? "external" : "internal";
+}
+
+/**
+ * Create a rehype plugin that collects links into the provided array.
+ * The caller passes a mutable array that gets populated during processing.
+ */
+export function rehypeCollectLinks(linkStore: LinkEntry[]) {
+  return () => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return (tree: any) => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      visit(tree, (node: any) => {
+        let href: unknown;
+
+        if (node.type === "element" && node.tagName === "a") {
+          // Footnote links are generated by remark-gfm and always resolve
+          const props = node.properties ?? {};
+          if ("dataFootnoteRef" in props || "dataFootnoteBackref" in props) return;
+          href = props.href;
+        } else if (
+          (node.type === "mdxJsxTextElement" || node.type === "mdxJsxFlowElement") &&
+          node.name === "a"
+        ) {
+          // Only literal values — expressions can't be checked statically
+          href = node.attributes?.find(
+            (a: { type: string; name?: string }) =>
+              a.type === "mdxJsxAttribute" && a.name === "href"
+          )?.value;
+        }
+
+        if (typeof href !== "string" || href === "") return;
+
+        linkStore.push({
+          href,
+          kind: classify(href),
+          text: toString(node).replace(/\s+/g, " ").trim(),
+          line: node.position?.start?.line,
+          column: node.position?.start?.column,
+        });
+      });
+    };
+  };
+}
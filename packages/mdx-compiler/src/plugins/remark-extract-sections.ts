@@ -0,0 +1,97 @@
+/**
+ * remark-extract-sections — Custom remark plugin that extracts the plain
+ * text of an article, split at every heading, for full-text search.
+ *
+ * Prose inside components is kept; component props, code blocks, math
+ * and MDX expressions are not. Heading ids don't exist yet at this
+ * stage — compileMDX fills them in from the ToC, which lists the same
+ * headings in the same order.
+ */
+
+import type { Root, Nodes } from "mdast";
+
+export interface SectionEntry {
+  /** Heading id; absent for the text before the first heading. */
+  id?: string;
+  /** Heading text; absent for the text before the first heading. */
+  heading?: string;
+  text: string;
+}
+
+/** A section before its heading id is known. */
+export interface RawSection {
+  /** Position of the heading among all headings of the document. */
+  headingIndex?: number;
+  heading?: string;
+  text: string;
+}
+
+const SKIPPED = new Set([
+  "code",
+  "math",
+  "inlineMath",
+  "mdxjsEsm",
+  "mdxFlowExpression",
+  "mdxTextExpression",
+  "yaml",
+]);
+
+/** Nodes whose text must not run into the next node's. */
+const BLOCKS = new Set([
+  "paragraph",
+  "heading",
+  "listItem",
+  "tableCell",
+  "blockquote",
+  "break",
+  "mdxJsxFlowElement",
+]);
+
+function squash(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+/** Append the searchable text under `node` to `parts`. */
+function collect(node: Nodes, parts: string[]) {
+  if (SKIPPED.has(node.type)) return;
+  if (node.type === "text" || node.type === "inlineCode") parts.push(node.value);
+  if ("children" in node) {
+    for (const child of node.children) collect(child as Nodes, parts);
+  }
+  if (BLOCKS.has(node.type)) parts.push(" ");
+}
+
+/**
+ * Create a remark plugin that extracts sections into the provided array.
+ * The caller passes a mutable array that gets populated during processing.
+ */
+export function remarkExtractSections(sectionStore: RawSection[]) {
+  return () => (tree: Root) => {
+    let headingIndex = 0;
+    let current: { headingIndex?: number; heading?: string; parts: string[] } = { parts: [] };
+    const sections = [current];
+
+    // Sections stay flat even when headings sit inside components
+    const walk = (node: Nodes) => {
+      if (node.type === "heading") {
+        const heading: string[] = [];
+        collect(node, heading);
+        current = { headingIndex: headingIndex++, heading: squash(heading.join("")), parts: [] };
+        sections.push(current);
+        return;
+      }
+      if (SKIPPED.has(node.type)) return;
+      if (node.type === "text" || node.type === "inlineCode") current.parts.push(node.value);
+      if ("children" in node) {
+        for (const child of node.children) walk(child as Nodes);
+      }
+      if (BLOCKS.has(node.type)) current.parts.push(" ");
+    };
+    walk(tree);
+
+    for (const { parts, ...section } of sections) {
+      const text = squash(parts.join(""));
+      if (text) sectionStore.push({ ...section, text });
+    }
+  };
+}
@@ -6,7 +6,9 @@
  *   - Unknown component names (typos like <Quizz>)
  *   - Missing required props (<Question> without text)
  *   - Invalid enum prop values (<Callout type="oops">)
+ *   - Prop values of the wrong type (<DBox x="10">)
  *   - Nesting violations (<Option> outside <Question>)
+ *   - Empty components that require children (<Quiz />)
  */
 
 import { visit, SKIP } from "unist-util-visit";
@@ -14,13 +16,17 @@ import {
   componentRegistry,
   knownComponentNames,
   type ComponentContract,
+  type PropType,
 } from "../components/registry.js";
+import type { DiagnosticCode } from "../diagnostics.js";
 
 export interface ComponentDiagnostic {
   message: string;
   line?: number;
   column?: number;
   severity: "error" | "warning";
+  /** Stable code of the check that fired, e.g. "component/unknown-prop". */
+  ruleId: DiagnosticCode;
 }
 
 /**
@@ -55,6 +61,109 @@ function getAttrValue(
   return null;
 }
 
+type JsxAttribute = {
+  type: string;
+  name?: string;
+  value?: unknown;
+  position?: { start: { line: number; column: number } };
+};
+
+/** The parts of an estree expression that getLiteralValue reads. */
+interface EstreeExpression {
+  type: string;
+  value?: unknown;
+  operator?: string;
+  argument?: EstreeExpression;
+  expressions?: unknown[];
+  quasis?: { value: { cooked?: string | null } }[];
+}
+
+/** An expression attribute value; MDX attaches the parsed program. */
+interface ExpressionValue {
+  value: string;
+  data?: {
+    estree?: { body: { type: string; expression?: EstreeExpression }[] };
+  };
+}
+
+const isLiteral = (value: unknown): value is string | number | boolean =>
+  ["string", "number", "boolean"].includes(typeof value);
+
+/**
+ * The value of an attribute whose value is a literal: a quoted string,
+ * a bare attribute (true), or an expression that is a string, number or
+ * boolean literal. Undefined for any other expression — its type is only
+ * known at runtime.
+ */
+function getLiteralValue(
+  attr: JsxAttribute
+): string | number | boolean | undefined {
+  if (attr.value === null || attr.value === undefined) return true;
+  if (typeof attr.value === "string") return attr.value;
+
+  const body = (attr.value as ExpressionValue).data?.estree?.body;
+  if (body?.length !== 1 || body[0].type !== "ExpressionStatement") {
+    return undefined;
+  }
+  const expression = body[0].expression;
+  switch (expression?.type) {
+    case "Literal":
+      return isLiteral(expression.value) ? expression.value : undefined;
+    case "UnaryExpression": {
+      // -1 is a unary minus applied to the literal 1
+      const operand = expression.argument?.value;
+      if (typeof operand !== "number") return undefined;
+      if (expression.operator === "-") return -operand;
+      return expression.operator === "+" ? operand : undefined;
+    }
+    case "TemplateLiteral":
+      return expression.expressions?.length === 0
+        ? (expression.quasis?.[0]?.value.cooked ?? undefined)
+        : undefined;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Describe why `value` doesn't fit `type`, or null if it does. Quoted
+ * numbers and booleans get a hint, since they're the usual mistake.
+ */
+function describeTypeMismatch(
+  attr: JsxAttribute,
+  value: string | number | boolean,
+  type: PropType
+): string | null {
+  if (typeof value === type) return null;
+
+  const isQuoted = typeof attr.value === "string";
+  if (isQuoted && type === "number" && value !== "" && Number.isFinite(Number(value))) {
+    return `must be a number, not the string "${value}". Write ${attr.name}={${Number(value)}}`;
+  }
+  if (isQuoted && type === "boolean" && (value === "true" || value === "false")) {
+    return `must be a boolean, not the string "${value}". Write ${attr.name}={${value}}`;
+  }
+  if (attr.value === null || attr.value === undefined) {
+    return `must be a ${type}, but has no value`;
+  }
+  return `must be a ${type}, got ${typeof value} ${JSON.stringify(value)}`;
+}
+
+interface ContentNode {
+  type: string;
+  value?: string;
+  children?: ContentNode[];
+}
+
+/** Whether an element has no content besides whitespace. */
+function hasNoChildren(node: ContentNode): boolean {
+  return (node.children || []).every((child) =>
+    child.type === "text"
+      ? !child.value?.trim()
+      : child.type === "paragraph" && hasNoChildren(child)
+  );
+}
+
 /**
  * Create the remark plugin. Returns diagnostics through a callback
  * so the caller can collect them without interrupting compilation.
@@ -101,16 +210,13 @@ export function remarkValidateComponents(
               line,
               column,
               severity: "error",
+              ruleId: "component/unknown-component",
             });
             return;
           }
 
           const contract = componentRegistry[name] as ComponentContract;
-          const attrs = (node.attributes || []) as Array<{
-            type: string;
-            name?: string;
-            value?: unknown;
-          }>;
+          const attrs = (node.attributes || []) as JsxAttribute[];
 
           // Build a map of provided attributes
           const providedProps = new Map<string, unknown>();
@@ -130,6 +236,7 @@ export function remarkValidateComponents(
                 line,
                 column,
                 severity: "error",
+                ruleId: "component/missing-required-prop",
               });
             }
           }
@@ -149,12 +256,33 @@ export function remarkValidateComponents(
                   line,
                   column,
                   severity: "error",
+                  ruleId: "component/invalid-enum-value",
                 });
               }
             }
           }
 
-          // 4. Check unknown props (warning, not error)
+          // 4. Check literal values against the declared prop types,
+          //    reported at the attribute
+          for (const attr of attrs) {
+            if (attr.type !== "mdxJsxAttribute" || !attr.name) continue;
+            const propType = contract.props[attr.name]?.type;
+            const value = getLiteralValue(attr);
+            if (!propType || value === undefined) continue;
+
+            const mismatch = describeTypeMismatch(attr, value, propType);
+            if (mismatch) {
+              report({
+                message: `<${name}> prop "${attr.name}" ${mismatch}`,
+                line: attr.position?.start.line ?? line,
+                column: attr.position?.start.column ?? column,
+                severity: "error",
+                ruleId: "component/invalid-prop-type",
+              });
+            }
+          }
+
+          // 5. Check unknown props (warning, not error)
           for (const propName of providedProps.keys()) {
             if (!(propName in contract.props)) {
               report({
@@ -162,11 +290,12 @@ export function remarkValidateComponents(
                 line,
                 column,
                 severity: "warning",
+                ruleId: "component/unknown-prop",
               });
             }
           }
 
-          // 5. Check nesting (parent constraint)
+          // 6. Check nesting (parent constraint)
           if (contract.parent) {
             // Walk up the parent chain to find the expected parent
             const parentName = findParentComponentName(
@@ -178,9 +307,21 @@ export function remarkValidateComponents(
                 line,
                 column,
                 severity: "error",
+                ruleId: "component/invalid-nesting",
               });
             }
           }
+
+          // 7. Check children
+          if (contract.childrenRequired && hasNoChildren(node)) {
+            report({
+              message: `<${name}> requires children, but is empty`,
+              line,
+              column,
+              severity: "error",
+              ruleId: "component/missing-children",
+            });
+          }
         }
       );
     };
@@ -0,0 +1,185 @@
+/**
+ * createCompilePool — Run compileMDX across a bounded set of worker threads.
+ *
+ * Each worker runs the exact same compileMDX as the main thread; only the
+ * source text and options cross the thread boundary. Results resolve in
+ * whatever order workers finish — callers that need deterministic output
+ * should await the returned promises in their own order.
+ */
+
+import os from "os";
+import { Worker } from "worker_threads";
+import {
+  compileMDX,
+  MDXCompileError,
+  type CompileOptions,
+  type CompileResult,
+} from "./compile.js";
+
+export interface CompilePoolOptions {
+  /**
+   * Maximum number of files compiled at once. Defaults to the number of
+   * available CPUs. A value of 1 compiles in-process without workers.
+   */
+  concurrency?: number;
+}
+
+export interface CompilePool {
+  /** Number of files compiled at once. */
+  readonly concurrency: number;
+  /** Queue a file for compilation. Rejects with MDXCompileError on failure. */
+  compile(source: string, options?: CompileOptions): Promise<CompileResult>;
+  /** Terminate all workers. Pending compilations are rejected. */
+  close(): Promise<void>;
+}
+
+/** Message sent from the pool to a worker. */
+export interface WorkerRequest {
+  id: number;
+  source: string;
+  options: CompileOptions;
+}
+
+/** Message sent from a worker back to the pool. */
+export type WorkerResponse =
+  | { id: number; ok: true; result: CompileResult }
+  | {
+      id: number;
+      ok: false;
+      error: {
+        message: string;
+        filePath: string;
+        line?: number;
+        column?: number;
+        ruleId?: string;
+        source?: string;
+        url?: string;
+      };
+    };
+
+interface Task {
+  id: number;
+  source: string;
+  options: CompileOptions;
+  resolve: (result: CompileResult) => void;
+  reject: (err: unknown) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  task: Task | null;
+}
+
+export function createCompilePool(
+  options: CompilePoolOptions = {}
+): CompilePool {
+  const concurrency = Math.max(
+    1,
+    Math.floor(options.concurrency ?? os.availableParallelism())
+  );
+
+  // Single-threaded: no point paying for worker startup
+  if (concurrency === 1) {
+    return {
+      concurrency,
+      compile: (source, compileOptions) => compileMDX(source, compileOptions),
+      close: async () => {},
+    };
+  }
+
+  const workerUrl = new URL("./worker.js", import.meta.url);
+  const workers: PoolWorker[] = [];
+  const queue: Task[] = [];
+  let nextId = 0;
+  let closed = false;
+
+  function spawn(): PoolWorker {
+    const entry: PoolWorker = { worker: new Worker(workerUrl), task: null };
+
+    entry.worker.on("message", (msg: WorkerResponse) => {
+      const task = entry.task;
+      if (!task || task.id !== msg.id) return;
+      entry.task = null;
+      if (msg.ok) {
+        task.resolve(msg.result);
+      } else {
+        const { message, ...context } = msg.error;
+        task.reject(new MDXCompileError(message, context));
+      }
+      dispatch();
+    });
+
+    // The worker is gone — fail its task and let a fresh one take over.
+    // A crash emits "error" then "exit"; only the first one counts.
+    function retire(reason: unknown) {
+      const index = workers.indexOf(entry);
+      if (index === -1) return;
+      workers.splice(index, 1);
+      const task = entry.task;
+      entry.task = null;
+      task?.reject(reason);
+      dispatch();
+    }
+
+    entry.worker.on("error", retire);
+
+    // Exiting without "error": out of memory, process.exit() in a plugin,
+    // a native crash. Without this the task would never settle
+    entry.worker.on("exit", (code) => {
+      const filePath = entry.task?.options.filePath ?? "<unknown>";
+      retire(
+        new MDXCompileError(
+          `Compile worker exited unexpectedly with code ${code}`,
+          { filePath }
+        )
+      );
+    });
+
+    workers.push(entry);
+    return entry;
+  }
+
+  function dispatch() {
+    while (!closed && queue.length > 0) {
+      let entry = workers.find((w) => w.task === null);
+      if (!entry) {
+        if (workers.length >= concurrency) return;
+        entry = spawn();
+      }
+      const task = queue.shift()!;
+      entry.task = task;
+      const request: WorkerRequest = {
+        id: task.id,
+        source: task.source,
+        options: task.options,
+      };
+      entry.worker.postMessage(request);
+    }
+  }
+
+  return {
+    concurrency,
+
+    compile(source, compileOptions = {}) {
+      if (closed) {
+        return Promise.reject(new Error("Compile pool is closed"));
+      }
+      return new Promise<CompileResult>((resolve, reject) => {
+        queue.push({ id: nextId++, source, options: compileOptions, resolve, reject });
+        dispatch();
+      });
+    },
+
+    async close() {
+      closed = true;
+      const pending = [
+        ...queue.splice(0),
+        ...workers.flatMap((w) => (w.task ? [w.task] : [])),
+      ];
+      for (const task of pending) {
+        task.reject(new Error("Compile pool was closed"));
+      }
+      await Promise.all(workers.splice(0).map((w) => w.worker.terminate()));
+    },
+  };
+}
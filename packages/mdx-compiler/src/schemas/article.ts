@@ -8,14 +8,14 @@ import { LocalizedString, LocalizedKeywords } from "./shared.js";
 export const ArticleFrontmatter = z.object({
   title: LocalizedString,
   slug: z.string().regex(/^[a-z0-9_-]+$/),
-  author: z.string().optional(),
+  author: z.string().optional(), // teacher slug
   keywords: LocalizedKeywords,
-  created: z.string(),
-  updated: z.string().optional(),
+  created: z.string(), // ISO date
+  updated: z.string().optional(), // ISO date
   difficulty: z.enum(["beginner", "intermediate", "advanced"]).optional(),
-  estimatedReadTime: z.number().optional(),
-  prerequisites: z.array(z.string()).optional(),
-  tutors: z.array(z.string()).optional(),
+  estimatedReadTime: z.number().optional(), // minutes
+  prerequisites: z.array(z.string()).optional(), // article slugs, or <entity>/<slug> elsewhere
+  tutors: z.array(z.string()).optional(), // teacher slugs who can tutor this
 });
 
 export type ArticleFrontmatter = z.infer<typeof ArticleFrontmatter>;
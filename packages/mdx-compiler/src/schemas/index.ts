@@ -1,5 +1,6 @@
 /**
- * All Zod schemas — single source of truth for content validation.
+ * All Zod schemas — single source of truth for content validation and
+ * for the content manifest the main project's build writes.
  */
 
 export {
@@ -16,3 +17,21 @@ export { SubjectConfig } from "./subject.js";
 export { TeacherConfig } from "./teacher.js";
 
 export { SystemArticleEntry, SystemConfig } from "./system.js";
+
+export {
+  MANIFEST_VERSION,
+  ContentAsset,
+  LocaleAssets,
+  ArticleHistory,
+  LocaleHistory,
+  Backlink,
+  LocaleBacklinks,
+  PrerequisiteRef,
+  ArticleManifestEntry,
+  SubjectManifest,
+  TeacherManifest,
+  SystemArticleManifest,
+  RouteIndexEntry,
+  RouteIndex,
+  ContentManifest,
+} from "./manifest.js";
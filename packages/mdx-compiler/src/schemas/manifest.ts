@@ -0,0 +1,179 @@
+/**
+ * Content manifest schema — the contract between the main project's
+ * content build, which writes .content-build/manifest/, and the app,
+ * which reads it. The build validates its output against it before
+ * writing; the app validates what it reads.
+ */
+
+import { z } from "zod/v4";
+import { LocalizedString, LOCALES } from "./shared.js";
+import { ArticleFrontmatter } from "./article.js";
+import { SubjectConfig } from "./subject.js";
+import { TeacherConfig } from "./teacher.js";
+import { SystemArticleEntry } from "./system.js";
+
+/**
+ * Bump on any change a reader of an older manifest would misread —
+ * renamed or removed fields, changed meanings. Adding an optional field
+ * doesn't need a bump. The app refuses a build with another version.
+ */
+export const MANIFEST_VERSION = 2;
+
+const Locale = z.enum(LOCALES);
+
+/** An image published by the content build. */
+export const ContentAsset = z.object({
+  /** Public URL. */
+  src: z.string(),
+  width: z.number().optional(),
+  height: z.number().optional(),
+});
+
+export type ContentAsset = z.infer<typeof ContentAsset>;
+
+/** A page's images per locale, keyed by the path as written in the MDX. */
+export const LocaleAssets = z.partialRecord(Locale, z.record(z.string(), ContentAsset));
+
+export type LocaleAssets = z.infer<typeof LocaleAssets>;
+
+/** When an article was last edited and by whom, from git. */
+export const ArticleHistory = z.object({
+  /** YYYY-MM-DD; the frontmatter `updated` wins over git. */
+  lastModified: z.string(),
+  /** Most commits first. */
+  contributors: z.array(z.string()),
+});
+
+export type ArticleHistory = z.infer<typeof ArticleHistory>;
+
+export const LocaleHistory = z.partialRecord(Locale, ArticleHistory);
+
+export type LocaleHistory = z.infer<typeof LocaleHistory>;
+
+/** An article linking to another one. */
+export const Backlink = z.object({
+  route: z.string(),
+  /** The linking article's title, in the locale it is shown in. */
+  title: z.string(),
+  /** Distinct link texts used, in document order. */
+  anchors: z.array(z.string()),
+});
+
+export type Backlink = z.infer<typeof Backlink>;
+
+/**
+ * Keyed by the reader's locale: each linking article is counted in the
+ * translation that locale falls back to, so the list matches what a
+ * reader following links backwards would find.
+ */
+export const LocaleBacklinks = z.partialRecord(Locale, z.array(Backlink));
+
+export type LocaleBacklinks = z.infer<typeof LocaleBacklinks>;
+
+/** An article to read before another one. */
+export const PrerequisiteRef = z.object({
+  route: z.string(),
+  title: LocalizedString,
+  /** Listed in the article's own frontmatter, not inherited. */
+  direct: z.boolean(),
+});
+
+export type PrerequisiteRef = z.infer<typeof PrerequisiteRef>;
+
+export const ArticleManifestEntry = z.object({
+  /** Frontmatter of the first locale found. */
+  frontmatter: ArticleFrontmatter,
+  locales: z.array(Locale),
+  /** Paths under .content-build/, with a `{locale}` placeholder. */
+  compiledPath: z.string(),
+  tocPath: z.string(),
+  category: z.string().optional(),
+  section: z.string().optional(),
+  assets: LocaleAssets.optional(),
+  history: LocaleHistory.optional(),
+  backlinks: LocaleBacklinks.optional(),
+  /** Every article to read first, direct and inherited, in reading order. */
+  prerequisites: z.array(PrerequisiteRef).optional(),
+});
+
+export type ArticleManifestEntry = z.infer<typeof ArticleManifestEntry>;
+
+const ArticleMap = z.record(z.string(), ArticleManifestEntry);
+
+export const SubjectManifest = z.object({
+  config: SubjectConfig,
+  entityType: z.literal("subject"),
+  resolvedTeachers: z.array(
+    z.object({
+      slug: z.string(),
+      name: LocalizedString,
+      ratings: TeacherConfig.shape.ratings,
+      photo: ContentAsset.optional(),
+    })
+  ),
+  articles: ArticleMap,
+  /** Article slugs in an order that respects prerequisites, categories otherwise. */
+  readingOrder: z.array(z.string()),
+});
+
+export type SubjectManifest = z.infer<typeof SubjectManifest>;
+
+export const TeacherManifest = z.object({
+  config: TeacherConfig,
+  entityType: z.literal("teacher"),
+  resolvedSubjects: z.array(
+    z.object({
+      slug: z.string(),
+      name: LocalizedString,
+    })
+  ),
+  photo: ContentAsset.optional(),
+  articles: ArticleMap,
+});
+
+export type TeacherManifest = z.infer<typeof TeacherManifest>;
+
+export const SystemArticleManifest = z.object({
+  config: SystemArticleEntry,
+  locales: z.array(Locale),
+  compiledPath: z.string(),
+  tocPath: z.string(),
+  assets: LocaleAssets.optional(),
+});
+
+export type SystemArticleManifest = z.infer<typeof SystemArticleManifest>;
+
+export const RouteIndexEntry = z.object({
+  type: z.enum(["subject", "teacher", "system-article"]),
+  /** Shard path under .content-build/manifest/; subjects and teachers only. */
+  shard: z.string().optional(),
+  /** Article slugs, including _front. */
+  articles: z.array(z.string()).optional(),
+});
+
+export type RouteIndexEntry = z.infer<typeof RouteIndexEntry>;
+
+/**
+ * manifest/index.json — everything except the subject and teacher
+ * entries, which live in one shard each.
+ */
+export const RouteIndex = z.object({
+  manifestVersion: z.number().int(),
+  /** Compiler that produced the build, for diagnostics. */
+  compilerVersion: z.string(),
+  buildHash: z.string(),
+  buildTime: z.string(),
+  locales: z.array(Locale),
+  routeMap: z.record(z.string(), RouteIndexEntry),
+  systemArticles: z.record(z.string(), SystemArticleManifest),
+});
+
+export type RouteIndex = z.infer<typeof RouteIndex>;
+
+/** The index plus every shard — the whole manifest as the build holds it. */
+export const ContentManifest = RouteIndex.extend({
+  subjects: z.record(z.string(), SubjectManifest),
+  teachers: z.record(z.string(), TeacherManifest),
+});
+
+export type ContentManifest = z.infer<typeof ContentManifest>;
@@ -9,13 +9,13 @@ export const SubjectConfig = z.object({
   slug: z.string().regex(/^[a-z0-9-]+$/),
   name: LocalizedString,
   description: LocalizedString,
-  teachers: z.array(z.string()),
+  teachers: z.array(z.string()), // teacher slugs (refs)
   keywords: LocalizedKeywords,
   categories: z.array(
     z.object({
       slug: z.string(),
       name: LocalizedString,
-      articles: z.array(z.string()),
+      articles: z.array(z.string()), // article slugs within this category
     })
   ),
   metadata: z
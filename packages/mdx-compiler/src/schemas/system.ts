@@ -7,12 +7,12 @@ import { LocalizedString, LocalizedKeywords } from "./shared.js";
 
 export const SystemArticleEntry = z.object({
   slug: z.string().regex(/^[a-z0-9-]+$/),
-  route: z.string().startsWith("/"),
+  route: z.string().startsWith("/"), // explicit route from root
   name: LocalizedString,
   description: LocalizedString.optional(),
   keywords: LocalizedKeywords,
-  pinned: z.boolean().default(false),
-  order: z.number().optional(),
+  pinned: z.boolean().default(false), // show on home page
+  order: z.number().optional(), // sort priority
 });
 
 export type SystemArticleEntry = z.infer<typeof SystemArticleEntry>;
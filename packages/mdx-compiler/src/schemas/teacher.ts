@@ -9,8 +9,8 @@ export const TeacherConfig = z.object({
   slug: z.string().regex(/^[a-z0-9-]+$/),
   name: LocalizedString,
   description: LocalizedString,
-  photo: z.string().optional(),
-  subjects: z.array(z.string()),
+  photo: z.string().optional(), // path relative to content/teachers/<slug>/, or a URL
+  subjects: z.array(z.string()), // subject slugs (refs)
   ratings: z.object({
     overall: z.number().min(0).max(5),
     clarity: z.number().min(0).max(5),
@@ -31,11 +31,12 @@ export const TeacherConfig = z.object({
       z.object({
         text: LocalizedString,
         rating: z.number().min(1).max(5),
-        date: z.string(),
+        date: z.string(), // ISO date
         anonymous: z.boolean().default(true),
       })
     )
     .optional(),
+  // Optional: organize teacher's articles into sections
   sections: z
     .array(
       z.object({
@@ -14,14 +14,20 @@ import path from "path";
 import matter from "gray-matter";
 import { compileMDX, type ComponentDiagnostic } from "./compile.js";
 import { ArticleFrontmatter } from "./schemas/article.js";
+import type { DiagnosticCategory, DiagnosticCode } from "./diagnostics.js";
 
 export interface ValidationDiagnostic {
   message: string;
   severity: "error" | "warning";
+  /** File the diagnostic belongs to, as passed in by the caller. */
+  file: string;
+  /** 1-based line in the file (frontmatter included). */
   line?: number;
   column?: number;
   /** Diagnostic category. */
-  category: "frontmatter" | "mdx-syntax" | "component" | "structure";
+  category: DiagnosticCategory;
+  /** Stable code of the check that fired, e.g. "frontmatter/invalid-field". */
+  ruleId: DiagnosticCode;
 }
 
 export interface ValidationResult {
@@ -63,14 +69,24 @@ export async function validateMDX(
     frontmatterData = parsed.data as Record<string, unknown>;
     content = parsed.content;
   } catch (err) {
+    // js-yaml marks are 0-based and relative to the frontmatter body
+    const mark = (err as { mark?: { line: number; column: number } }).mark;
     diagnostics.push({
       message: `Failed to parse frontmatter: ${err}`,
       severity: "error",
+      file: filePath,
+      line: mark ? mark.line + 2 : undefined,
+      column: mark ? mark.column + 1 : undefined,
       category: "frontmatter",
+      ruleId: "frontmatter/parse-error",
     });
     return { valid: false, diagnostics, frontmatter: null };
   }
 
+  // The compiler only sees the body — shift its positions back into the file
+  const lineOffset =
+    source.slice(0, source.length - content.length).split("\n").length - 1;
+
   // Validate against schema
   const schemaResult = ArticleFrontmatter.safeParse(frontmatterData);
   if (!schemaResult.success) {
@@ -78,7 +94,9 @@ export async function validateMDX(
       diagnostics.push({
         message: `Frontmatter: ${issue.path.join(".")}: ${issue.message}`,
         severity: "error",
+        file: filePath,
         category: "frontmatter",
+        ruleId: "frontmatter/invalid-field",
       });
     }
   } else {
@@ -91,7 +109,9 @@ export async function validateMDX(
       diagnostics.push({
         message: `Frontmatter slug "${schemaResult.data.slug}" does not match filename "${expectedSlug}"`,
         severity: "error",
+        file: filePath,
         category: "structure",
+        ruleId: "structure/slug-mismatch",
       });
     }
   }
@@ -110,9 +130,11 @@ export async function validateMDX(
         diagnostics.push({
           message: cd.message,
           severity: cd.severity,
-          line: cd.line,
+          file: filePath,
+          line: cd.line !== undefined ? cd.line + lineOffset : undefined,
           column: cd.column,
           category: "component",
+          ruleId: cd.ruleId,
         });
       }
     } catch (err: unknown) {
@@ -120,9 +142,12 @@ export async function validateMDX(
       diagnostics.push({
         message: `MDX syntax error: ${(error.message as string) || String(err)}`,
         severity: "error",
-        line: error.line as number | undefined,
+        file: filePath,
+        line:
+          typeof error.line === "number" ? error.line + lineOffset : undefined,
         column: error.column as number | undefined,
         category: "mdx-syntax",
+        ruleId: "mdx/syntax-error",
       });
     }
   }
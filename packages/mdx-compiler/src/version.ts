@@ -0,0 +1,15 @@
+/**
+ * Compiler package version, read from package.json at load time.
+ *
+ * Consumers use it to invalidate anything derived from compiler output
+ * (e.g. the per-file compile cache in build-content.ts) when the
+ * compiler itself changes.
+ */
+
+import { readFileSync } from "fs";
+
+const pkg = JSON.parse(
+  readFileSync(new URL("../package.json", import.meta.url), "utf-8")
+) as { version: string };
+
+export const COMPILER_VERSION: string = pkg.version;
@@ -0,0 +1,46 @@
+/**
+ * Worker thread entry for createCompilePool.
+ *
+ * Receives WorkerRequest messages, runs compileMDX, and posts back a
+ * WorkerResponse. MDXCompileError is flattened to plain fields because
+ * class instances don't survive structured cloning.
+ */
+
+import { parentPort } from "worker_threads";
+import { compileMDX, MDXCompileError } from "./compile.js";
+import type { WorkerRequest, WorkerResponse } from "./pool.js";
+
+if (!parentPort) {
+  throw new Error("worker.js must be run as a worker thread");
+}
+
+const port = parentPort;
+
+port.on("message", async ({ id, source, options }: WorkerRequest) => {
+  let response: WorkerResponse;
+  try {
+    const result = await compileMDX(source, options);
+    response = { id, ok: true, result };
+  } catch (err) {
+    const e =
+      err instanceof MDXCompileError
+        ? err
+        : new MDXCompileError(String(err), {
+            filePath: options.filePath ?? "<unknown>",
+          });
+    response = {
+      id,
+      ok: false,
+      error: {
+        message: e.message,
+        filePath: e.filePath,
+        line: e.line,
+        column: e.column,
+        ruleId: e.ruleId,
+        source: e.source,
+        url: e.url,
+      },
+    };
+  }
+  port.postMessage(response);
+});
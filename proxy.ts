@@ -0,0 +1,30 @@
+/**
+ * Locale links — `?lang=<locale>` (used by the sitemaps' hreflang
+ * alternates) switches the locale the same way the locale switcher does:
+ * this request renders in it and the cookie keeps it for the next one.
+ */
+
+import { NextResponse, type NextRequest } from "next/server";
+import { isValidLocale } from "@/lib/i18n/config";
+
+const LOCALE_COOKIE = "NEXT_LOCALE";
+
+export function proxy(request: NextRequest) {
+  const lang = request.nextUrl.searchParams.get("lang");
+  if (!lang || !isValidLocale(lang)) return NextResponse.next();
+
+  // lib/i18n/request.ts reads the request cookie, so set it for this render too
+  request.cookies.set(LOCALE_COOKIE, lang);
+  const response = NextResponse.next({ request: { headers: request.headers } });
+  response.cookies.set(LOCALE_COOKIE, lang, { path: "/", maxAge: 31536000 });
+  return response;
+}
+
+export const config = {
+  matcher: [
+    {
+      source: "/((?!(?:_next|api|assets|search)(?:/|$)).*)",
+      has: [{ type: "query", key: "lang" }],
+    },
+  ],
+};
@@ -0,0 +1,223 @@
+/**
+ * Step 6: Publish images referenced by content.
+ *
+ * Relative image paths in MDX (Markdown images, <Figure src>, <img src>)
+ * are resolved from the file's directory, teacher photos from the
+ * teacher's directory. Each image is checked, measured and copied to
+ * .content-build/assets/ under a content-hashed name; next.config.ts
+ * publishes that directory as /assets/. The manifest maps every path as
+ * written to its public URL and intrinsic size.
+ */
+
+import { readFile, stat, writeFile } from "fs/promises";
+import { existsSync } from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import type { ContentAsset, LocaleAssets } from "@wikipefia/mdx-compiler";
+import type { LoadedTeacher } from "./load.ts";
+import type { CompiledPage } from "./compile.ts";
+import { BUILD_DIR, CONTENT_DIR, ROOT, ensureDir, log } from "./utils.ts";
+import { buildErrors, type BuildError } from "./report.ts";
+
+export const ASSETS_DIR = path.join(BUILD_DIR, "assets");
+const ASSETS_URL = "/assets";
+
+export interface ResolvedAssets {
+  /** Keyed by page route; sizes are absent for SVGs without width/height or viewBox. */
+  pages: Map<string, LocaleAssets>;
+  /** Keyed by teacher slug. */
+  teacherPhotos: Map<string, ContentAsset>;
+}
+
+const SUPPORTED_EXTENSIONS = new Set([".png", ".jpg", ".jpeg", ".gif", ".webp", ".svg"]);
+
+// ── Image dimensions ───────────────────────────────────
+
+type Size = { width: number; height: number };
+
+function jpegSize(buf: Buffer): Size | null {
+  let i = 2;
+  while (i + 9 < buf.length) {
+    if (buf[i] !== 0xff) return null;
+    const marker = buf[i + 1];
+    // SOF0–SOF15 carry the frame size; C4, C8 and CC are other segments
+    if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+      return { height: buf.readUInt16BE(i + 5), width: buf.readUInt16BE(i + 7) };
+    }
+    i += 2 + buf.readUInt16BE(i + 2);
+  }
+  return null;
+}
+
+function webpSize(buf: Buffer): Size | null {
+  switch (buf.toString("ascii", 12, 16)) {
+    case "VP8 ":
+      return { width: buf.readUInt16LE(26) & 0x3fff, height: buf.readUInt16LE(28) & 0x3fff };
+    case "VP8L": {
+      const bits = buf.readUInt32LE(21);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    case "VP8X":
+      return { width: buf.readUIntLE(24, 3) + 1, height: buf.readUIntLE(27, 3) + 1 };
+    default:
+      return null;
+  }
+}
+
+function svgSize(buf: Buffer): Size | null {
+  const tag = buf.toString("utf-8").match(/<svg\b[^>]*>/i)?.[0];
+  if (!tag) return null;
+  const attr = (name: string) => tag.match(new RegExp(`\\s${name}\\s*=\\s*["']([^"']*)["']`, "i"))?.[1];
+
+  // Percentages and em-based sizes don't say anything about the image
+  const px = (value: string | undefined) =>
+    value && /^\s*[\d.]+\s*(px)?\s*$/.test(value) ? parseFloat(value) : NaN;
+  const width = px(attr("width"));
+  const height = px(attr("height"));
+  if (width > 0 && height > 0) return { width, height };
+
+  const viewBox = attr("viewBox")?.trim().split(/[\s,]+/).map(Number);
+  if (viewBox?.length === 4 && viewBox[2] > 0 && viewBox[3] > 0) {
+    return { width: viewBox[2], height: viewBox[3] };
+  }
+  return null;
+}
+
+/** Read the intrinsic size from the file header; null if it can't be read. */
+function imageSize(buf: Buffer, ext: string): Size | null {
+  try {
+    switch (ext) {
+      case ".png":
+        return { width: buf.readUInt32BE(16), height: buf.readUInt32BE(20) };
+      case ".gif":
+        return { width: buf.readUInt16LE(6), height: buf.readUInt16LE(8) };
+      case ".jpg":
+      case ".jpeg":
+        return jpegSize(buf);
+      case ".webp":
+        return webpSize(buf);
+      case ".svg":
+        return svgSize(buf);
+      default:
+        return null;
+    }
+  } catch {
+    // Truncated header
+    return null;
+  }
+}
+
+// ── Publishing ─────────────────────────────────────────
+
+async function publish(filePath: string): Promise<ContentAsset> {
+  const buf = await readFile(filePath);
+  const ext = path.extname(filePath).toLowerCase();
+  const hash = createHash("sha256").update(buf).digest("hex").slice(0, 10);
+  const name = `${path.basename(filePath, path.extname(filePath))}.${hash}${ext}`;
+
+  const outPath = path.join(ASSETS_DIR, name);
+  if (!existsSync(outPath)) {
+    await ensureDir(ASSETS_DIR);
+    await writeFile(outPath, buf);
+  }
+
+  const size = imageSize(buf, ext);
+  return { src: `${ASSETS_URL}/${encodeURIComponent(name)}`, ...size };
+}
+
+/**
+ * Resolve one reference. Problems are recorded against `at` and yield null.
+ * `published` holds the files seen in this run — the same image is usually
+ * referenced from every locale.
+ */
+async function resolveAsset(
+  published: Map<string, Promise<ContentAsset>>,
+  baseDir: string,
+  src: string,
+  at: Omit<BuildError, "category" | "ruleId" | "message">
+): Promise<ContentAsset | null> {
+  const report = (ruleId: BuildError["ruleId"], message: string) => {
+    buildErrors.add({ category: "asset", ruleId, ...at, message });
+    return null;
+  };
+
+  let relPath: string;
+  try {
+    relPath = decodeURI(src.replace(/[?#].*$/, ""));
+  } catch {
+    relPath = src;
+  }
+  const filePath = path.resolve(baseDir, relPath);
+  const fromContent = path.relative(CONTENT_DIR, filePath);
+  if (fromContent.startsWith("..") || path.isAbsolute(fromContent)) {
+    return report("asset/outside-content", `Image "${src}" resolves outside content/.`);
+  }
+
+  const isFile = await stat(filePath).then((s) => s.isFile(), () => false);
+  if (!isFile) {
+    return report(
+      "asset/missing-file",
+      `Image "${src}" not found (looked for ${path.relative(ROOT, filePath)}).`
+    );
+  }
+
+  const ext = path.extname(filePath).toLowerCase();
+  if (!SUPPORTED_EXTENSIONS.has(ext)) {
+    return report(
+      "asset/unsupported-type",
+      `Image "${src}" has an unsupported type. Supported: ${[...SUPPORTED_EXTENSIONS].join(", ")}`
+    );
+  }
+
+  if (!published.has(filePath)) published.set(filePath, publish(filePath));
+  return published.get(filePath)!;
+}
+
+/** URLs and absolute paths (served from public/) are used as-is. */
+function isRelativeAsset(src: string): boolean {
+  return !/^([a-z][a-z0-9+.-]*:|\/|#)/i.test(src);
+}
+
+export async function resolveAssets(
+  compiledPages: CompiledPage[],
+  teachers: LoadedTeacher[]
+): Promise<ResolvedAssets> {
+  const errorsBefore = buildErrors.count;
+  const pages: ResolvedAssets["pages"] = new Map();
+  const teacherPhotos: ResolvedAssets["teacherPhotos"] = new Map();
+  const published = new Map<string, Promise<ContentAsset>>();
+  let references = 0;
+
+  for (const page of compiledPages) {
+    const baseDir = path.dirname(path.join(ROOT, page.displayPath));
+    for (const ref of page.assets) {
+      references++;
+      const asset = await resolveAsset(published, baseDir, ref.src, {
+        file: page.displayPath,
+        line: ref.line !== undefined ? ref.line + page.lineOffset : undefined,
+        column: ref.column,
+      });
+      if (!asset) continue;
+
+      const byLocale = pages.get(page.route) ?? {};
+      byLocale[page.locale] = { ...byLocale[page.locale], [ref.src]: asset };
+      pages.set(page.route, byLocale);
+    }
+  }
+
+  for (const t of teachers) {
+    const photo = t.config.photo;
+    if (!photo || !isRelativeAsset(photo)) continue;
+    references++;
+    const asset = await resolveAsset(published, t.dir, photo, {
+      file: path.relative(ROOT, path.join(t.dir, "config.json")),
+      path: "photo",
+    });
+    if (asset) teacherPhotos.set(t.config.slug, asset);
+  }
+
+  if (buildErrors.count === errorsBefore) {
+    log(`Assets: ${references} reference(s), ${published.size} file(s) published.`);
+  }
+  return { pages, teacherPhotos };
+}
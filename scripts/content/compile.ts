@@ -0,0 +1,561 @@
+/**
+ * Step 3: Compile MDX articles through the per-file cache and worker pool.
+ */
+
+import { readFile, rm } from "fs/promises";
+import { existsSync } from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import matter from "gray-matter";
+import { z } from "zod/v4";
+import {
+  createCompilePool,
+  MDXCompileError,
+  COMPILER_VERSION,
+  componentRegistry,
+  ArticleFrontmatter,
+  LOCALES,
+  type Locale,
+  type TocEntry,
+  type LinkEntry,
+  type AssetEntry,
+  type SectionEntry,
+  type ComponentDiagnostic,
+  type ArticleManifestEntry,
+  type SystemArticleManifest,
+  type CompilePool,
+} from "@wikipefia/mdx-compiler";
+import type { LoadedSubject, LoadedTeacher, LoadedSystem } from "./load.ts";
+import {
+  BUILD_DIR,
+  CACHE_DIR,
+  ROOT,
+  getArgValue,
+  listFiles,
+  log,
+  logError,
+  readJson,
+  writeJson,
+  writeText,
+} from "./utils.ts";
+import { buildErrors, formatIssuePath } from "./report.ts";
+
+function parseConcurrency(): number | undefined {
+  const raw = getArgValue("--concurrency");
+  if (raw === undefined) return undefined;
+  const n = Number(raw);
+  if (!Number.isInteger(n) || n < 1) {
+    console.error(`✗ --concurrency must be a positive integer, got "${raw}"`);
+    process.exit(2);
+  }
+  return n;
+}
+
+let compilePool: CompilePool | null = null;
+
+/**
+ * The shared compile pool, created on first use with --concurrency from
+ * argv. Scripts call it from main() so a bad flag fails before any work.
+ * Workers are spawned lazily, so creating the pool up front is free.
+ */
+export function getCompilePool(): CompilePool {
+  compilePool ??= createCompilePool({ concurrency: parseConcurrency() });
+  return compilePool;
+}
+
+/**
+ * Compile cache — one JSON entry per distinct MDX source, keyed on the
+ * source text, the compiler version and the component registry. Anything
+ * else that changes compiled output must be folded into the fingerprint.
+ */
+interface CompileCacheEntry {
+  compiled: string;
+  toc: TocEntry[];
+  links: LinkEntry[];
+  assets: AssetEntry[];
+  sections: SectionEntry[];
+  diagnostics: ComponentDiagnostic[];
+}
+
+const COMPILER_FINGERPRINT = createHash("sha256")
+  .update(COMPILER_VERSION)
+  .update(JSON.stringify(componentRegistry))
+  .digest("hex");
+
+export const cacheStats = { hits: 0, misses: 0 };
+const usedCacheKeys = new Set<string>();
+
+function compileCacheKey(source: string): string {
+  return createHash("sha256")
+    .update(COMPILER_FINGERPRINT)
+    .update(source)
+    .digest("hex");
+}
+
+async function readCompileCache(key: string): Promise<CompileCacheEntry | null> {
+  const entryPath = path.join(CACHE_DIR, `${key}.json`);
+  if (!existsSync(entryPath)) return null;
+  try {
+    return (await readJson(entryPath)) as CompileCacheEntry;
+  } catch {
+    // Corrupt entry — treat as a miss, it gets overwritten below
+    return null;
+  }
+}
+
+/** Remove cache entries that no file referenced during this build. */
+export async function pruneCompileCache(): Promise<number> {
+  const files = await listFiles(CACHE_DIR, ".json");
+  let removed = 0;
+  for (const file of files) {
+    if (!usedCacheKeys.has(path.basename(file, ".json"))) {
+      await rm(path.join(CACHE_DIR, file));
+      removed++;
+    }
+  }
+  return removed;
+}
+
+function reportDiagnostics(
+  filePath: string,
+  page: PageRef,
+  diagnostics: ComponentDiagnostic[]
+) {
+  // Log component warnings (non-fatal)
+  for (const d of diagnostics) {
+    if (d.severity === "warning") {
+      console.warn(`  ⚠ ${filePath}: ${d.message}${d.line ? ` (line ${d.line})` : ""}`);
+    } else if (d.severity === "error") {
+      logError(`${filePath}: ${d.message}${d.line ? ` (line ${d.line})` : ""}`);
+    }
+    buildErrors.note({
+      category: "component",
+      ruleId: d.ruleId,
+      severity: d.severity,
+      file: page.displayPath,
+      line: d.line !== undefined ? d.line + page.lineOffset : undefined,
+      column: d.column,
+      message: d.message,
+    });
+  }
+}
+
+/** Where a compiled file is served — enough to resolve links into and out of it. */
+export interface PageRef {
+  /** URL path the app renders the file at, e.g. /discrete-math/graphs. */
+  route: string;
+  locale: Locale;
+  /** Title in this locale, for pages that list it (backlinks). */
+  title: string;
+  /** Path relative to the repo root, for error messages. */
+  displayPath: string;
+  /** Frontmatter lines stripped before compiling — add to compiler line numbers. */
+  lineOffset: number;
+}
+
+/** Split frontmatter off a source file; YAML errors are recorded and yield null. */
+function parseSource(raw: string, displayPath: string): matter.GrayMatterFile<string> | null {
+  try {
+    return matter(raw);
+  } catch (err) {
+    const mark = (err as { mark?: { line: number; column: number } }).mark;
+    buildErrors.add({
+      category: "frontmatter",
+      ruleId: "frontmatter/parse-error",
+      file: displayPath,
+      // js-yaml marks are 0-based and relative to the frontmatter body
+      line: mark ? mark.line + 2 : undefined,
+      column: mark ? mark.column + 1 : undefined,
+      message: `Invalid YAML: ${(err as { reason?: string }).reason ?? String(err)}`,
+    });
+    return null;
+  }
+}
+
+/** Number of lines gray-matter removed in front of `content`. */
+function frontmatterLines(raw: string, content: string): number {
+  return raw.slice(0, raw.length - content.length).split("\n").length - 1;
+}
+
+/** A compiled file's headings, outgoing links and images, for the checks after compiling. */
+export interface CompiledPage extends PageRef {
+  toc: TocEntry[];
+  links: LinkEntry[];
+  assets: AssetEntry[];
+  sections: SectionEntry[];
+}
+
+/** URL path of a subject or teacher article; _front is the entity page itself. */
+export function articleRoute(entitySlug: string, articleSlug: string): string {
+  return articleSlug === "_front" ? `/${entitySlug}` : `/${entitySlug}/${articleSlug}`;
+}
+
+/**
+ * A compilation that has been queued on the pool. Jobs are scheduled for
+ * every file up front so workers stay busy, then completed one by one in
+ * file order so logs, diagnostics and the first reported failure are the
+ * same no matter which worker finishes first.
+ */
+export interface CompileJob {
+  source: string;
+  filePath: string;
+  relPath: string;
+  page: PageRef;
+  compiledOutPath: string;
+  tocOutPath: string;
+  outcome: Promise<{ cached: boolean; entry: CompileCacheEntry }>;
+}
+
+export function scheduleCompile(
+  source: string,
+  filePath: string,
+  relPath: string,
+  page: PageRef,
+  outPaths: { compiledOutPath: string; tocOutPath: string }
+): CompileJob {
+  const key = compileCacheKey(source);
+  usedCacheKeys.add(key);
+
+  const outcome = (async () => {
+    const cached = await readCompileCache(key);
+    if (cached) return { cached: true, entry: cached };
+
+    const result = await getCompilePool().compile(source, {
+      filePath,
+      validateComponents: true,
+    });
+    const entry: CompileCacheEntry = {
+      compiled: result.compiled,
+      toc: result.toc,
+      links: result.links,
+      assets: result.assets,
+      sections: result.sections,
+      diagnostics: result.diagnostics,
+    };
+    await writeJson(path.join(CACHE_DIR, `${key}.json`), entry);
+    return { cached: false, entry };
+  })();
+  // Failures are surfaced in file order by completeCompileJob
+  outcome.catch(() => {});
+
+  return { source, filePath, relPath, page, ...outPaths, outcome };
+}
+
+/**
+ * Write a finished job's output. MDX errors are printed with source
+ * context, recorded in buildErrors, and yield null — the remaining
+ * files still compile.
+ */
+async function completeCompileJob(job: CompileJob): Promise<CompiledPage | null> {
+  let outcome: Awaited<CompileJob["outcome"]>;
+  try {
+    outcome = await job.outcome;
+  } catch (err) {
+    if (!(err instanceof MDXCompileError)) throw err;
+    console.error("");
+    console.error("  " + err.format(job.source).split("\n").join("\n  "));
+    console.error("");
+    buildErrors.add({
+      category: "mdx-syntax",
+      ruleId: "mdx/syntax-error",
+      file: job.page.displayPath,
+      line: err.line !== undefined ? err.line + job.page.lineOffset : undefined,
+      column: err.column,
+      message: err.message,
+    });
+    return null;
+  }
+
+  const { cached, entry } = outcome;
+  if (cached) {
+    cacheStats.hits++;
+    log(`Cached ${job.relPath}`);
+  } else {
+    cacheStats.misses++;
+    log(`Compiled ${job.relPath}`);
+  }
+  reportDiagnostics(job.filePath, job.page, entry.diagnostics);
+
+  await writeText(job.compiledOutPath, entry.compiled);
+  await writeJson(job.tocOutPath, entry.toc);
+  return {
+    ...job.page,
+    toc: entry.toc,
+    links: entry.links,
+    assets: entry.assets,
+    sections: entry.sections,
+  };
+}
+
+export async function completeCompileJobs(jobs: CompileJob[]): Promise<CompiledPage[]> {
+  const pages: CompiledPage[] = [];
+  for (const job of jobs) {
+    const page = await completeCompileJob(job);
+    if (page) pages.push(page);
+  }
+  return pages;
+}
+
+/**
+ * A subject or teacher article as recorded in the manifest. `assets` and
+ * `history` are added by buildManifest.
+ */
+export type ArticleData = ArticleManifestEntry;
+
+export type SystemArticleData = SystemArticleManifest;
+
+/**
+ * One MDX source file. ArticleData keeps only the first locale's
+ * frontmatter; checks that must look at every file use these instead.
+ */
+export interface ArticleFile {
+  entityType: "subjects" | "teachers";
+  entitySlug: string;
+  slug: string;
+  locale: Locale;
+  /** Path relative to the repo root, for error messages. */
+  displayPath: string;
+  frontmatter: z.infer<typeof ArticleFrontmatter>;
+}
+
+/** Articles of one entity, keyed by article slug. */
+export type ArticleMap = Record<string, ArticleData>;
+export type SystemArticleMap = Record<string, SystemArticleData>;
+
+export async function processArticles(
+  articlesDir: string,
+  entitySlug: string,
+  entityType: "subjects" | "teachers"
+): Promise<{ articles: ArticleMap; files: ArticleFile[]; jobs: CompileJob[] }> {
+  const articles: ArticleMap = {};
+  const files: ArticleFile[] = [];
+  const jobs: CompileJob[] = [];
+
+  for (const locale of LOCALES) {
+    const localeDir = path.join(articlesDir, locale);
+    if (!existsSync(localeDir)) continue;
+
+    const mdxFiles = await listFiles(localeDir, ".mdx");
+
+    for (const file of mdxFiles) {
+      const filePath = path.join(localeDir, file);
+      const displayPath = path.relative(ROOT, filePath);
+      const raw = await readFile(filePath, "utf-8");
+      const source = parseSource(raw, displayPath);
+      if (!source) continue;
+      const { data: frontmatterRaw, content } = source;
+
+      // Validate frontmatter — broken files are recorded and skipped
+      const parsed = ArticleFrontmatter.safeParse(frontmatterRaw);
+      if (!parsed.success) {
+        for (const issue of parsed.error.issues) {
+          buildErrors.add({
+            category: "frontmatter",
+            ruleId: "frontmatter/invalid-field",
+            file: displayPath,
+            path: formatIssuePath(issue.path),
+            message: issue.message,
+          });
+        }
+        continue;
+      }
+
+      const fm = parsed.data;
+      const articleSlug = fm.slug;
+
+      // Initialize article entry if first locale
+      if (!articles[articleSlug]) {
+        articles[articleSlug] = {
+          frontmatter: fm,
+          locales: [],
+          compiledPath: `compiled/${entityType}/${entitySlug}/{locale}/${articleSlug}.mjs`,
+          tocPath: `toc/${entityType}/${entitySlug}/{locale}/${articleSlug}.json`,
+        };
+      }
+
+      articles[articleSlug].locales.push(locale);
+      files.push({
+        entityType,
+        entitySlug,
+        slug: articleSlug,
+        locale,
+        displayPath,
+        frontmatter: fm,
+      });
+
+      // Queue MDX compilation — output is written by completeCompileJobs
+      const relPath = `${entityType}/${entitySlug}/articles/${locale}/${file}`;
+      const page = {
+        route: articleRoute(entitySlug, articleSlug),
+        locale,
+        title: fm.title[locale],
+        displayPath,
+        lineOffset: frontmatterLines(raw, content),
+      };
+      jobs.push(
+        scheduleCompile(content, filePath, relPath, page, {
+          compiledOutPath: path.join(
+            BUILD_DIR,
+            "compiled",
+            entityType,
+            entitySlug,
+            locale,
+            `${articleSlug}.mjs`
+          ),
+          tocOutPath: path.join(
+            BUILD_DIR,
+            "toc",
+            entityType,
+            entitySlug,
+            locale,
+            `${articleSlug}.json`
+          ),
+        })
+      );
+    }
+  }
+
+  return { articles, files, jobs };
+}
+
+export async function processSystemArticles(
+  system: LoadedSystem
+): Promise<{ articles: SystemArticleMap; jobs: CompileJob[] }> {
+  const results: SystemArticleMap = {};
+  const jobs: CompileJob[] = [];
+
+  for (const articleConfig of system.config.articles) {
+    results[articleConfig.slug] = {
+      config: articleConfig,
+      locales: [],
+      compiledPath: `compiled/system/{locale}/${articleConfig.slug}.mjs`,
+      tocPath: `toc/system/{locale}/${articleConfig.slug}.json`,
+    };
+
+    for (const locale of LOCALES) {
+      const filePath = path.join(
+        system.dir,
+        "articles",
+        locale,
+        `${articleConfig.slug}.mdx`
+      );
+      if (!existsSync(filePath)) continue;
+
+      const displayPath = path.relative(ROOT, filePath);
+      const raw = await readFile(filePath, "utf-8");
+      const source = parseSource(raw, displayPath);
+      if (!source) continue;
+      const { content } = source;
+
+      results[articleConfig.slug].locales.push(locale);
+
+      const relPath = `system/articles/${locale}/${articleConfig.slug}.mdx`;
+      const page = {
+        route: `/${articleConfig.slug}`,
+        locale,
+        title: articleConfig.name[locale],
+        displayPath,
+        lineOffset: frontmatterLines(raw, content),
+      };
+      jobs.push(
+        scheduleCompile(content, filePath, relPath, page, {
+          compiledOutPath: path.join(
+            BUILD_DIR,
+            "compiled",
+            "system",
+            locale,
+            `${articleConfig.slug}.mjs`
+          ),
+          tocOutPath: path.join(
+            BUILD_DIR,
+            "toc",
+            "system",
+            locale,
+            `${articleConfig.slug}.json`
+          ),
+        })
+      );
+    }
+  }
+
+  return { articles: results, jobs };
+}
+
+/**
+ * Compile every article of every entity. All files are queued first so the
+ * pool stays saturated across entities, then completed in order for
+ * deterministic output.
+ */
+export async function compileAllArticles(
+  subjects: LoadedSubject[],
+  teachers: LoadedTeacher[],
+  system: LoadedSystem | null
+): Promise<{
+  subjectArticleData: Record<string, ArticleMap>;
+  teacherArticleData: Record<string, ArticleMap>;
+  systemArticleData: SystemArticleMap;
+  articleFiles: ArticleFile[];
+  compiledPages: CompiledPage[];
+}> {
+  const articleFiles: ArticleFile[] = [];
+  const compiledPages: CompiledPage[] = [];
+  const subjectArticleData: Record<string, ArticleMap> = {};
+  const subjectJobs: Record<string, CompileJob[]> = {};
+  for (const s of subjects) {
+    const articlesDir = path.join(s.dir, "articles");
+    const { articles, files, jobs } = await processArticles(
+      articlesDir,
+      s.config.slug,
+      "subjects"
+    );
+    subjectArticleData[s.config.slug] = articles;
+    articleFiles.push(...files);
+    subjectJobs[s.config.slug] = jobs;
+  }
+
+  const teacherArticleData: Record<string, ArticleMap> = {};
+  const teacherJobs: Record<string, CompileJob[]> = {};
+  for (const t of teachers) {
+    const articlesDir = path.join(t.dir, "articles");
+    const { articles, files, jobs } = await processArticles(
+      articlesDir,
+      t.config.slug,
+      "teachers"
+    );
+    teacherArticleData[t.config.slug] = articles;
+    articleFiles.push(...files);
+    teacherJobs[t.config.slug] = jobs;
+  }
+
+  let systemArticleData: SystemArticleMap = {};
+  let systemJobs: CompileJob[] = [];
+  if (system) {
+    ({ articles: systemArticleData, jobs: systemJobs } =
+      await processSystemArticles(system));
+  }
+
+  for (const s of subjects) {
+    compiledPages.push(...(await completeCompileJobs(subjectJobs[s.config.slug])));
+    const articleCount = Object.keys(subjectArticleData[s.config.slug]).length;
+    log(`Subject "${s.config.slug}": ${articleCount} article(s) compiled.`);
+  }
+
+  for (const t of teachers) {
+    compiledPages.push(...(await completeCompileJobs(teacherJobs[t.config.slug])));
+    const articleCount = Object.keys(teacherArticleData[t.config.slug]).length;
+    log(`Teacher "${t.config.slug}": ${articleCount} article(s) compiled.`);
+  }
+
+  if (system) {
+    compiledPages.push(...(await completeCompileJobs(systemJobs)));
+    log(`System: ${Object.keys(systemArticleData).length} article(s) compiled.`);
+  }
+
+  return {
+    subjectArticleData,
+    teacherArticleData,
+    systemArticleData,
+    articleFiles,
+    compiledPages,
+  };
+}
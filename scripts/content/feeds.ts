@@ -0,0 +1,237 @@
+/**
+ * Step 12: Atom feeds of new and updated articles.
+ *
+ * For every locale: a site-wide feed plus one per subject and teacher,
+ * at /feeds/<locale>/all.xml and /feeds/<locale>/<slug>.xml. Entries are
+ * dated from that translation's `created`/`updated` frontmatter and
+ * summarised by its first paragraph. Written to .content-build/feeds/;
+ * next.config.ts publishes the directory, and entity pages link to it.
+ */
+
+import { readFile } from "fs/promises";
+import path from "path";
+import matter from "gray-matter";
+import { LOCALES, type ContentManifest, type Locale } from "@wikipefia/mdx-compiler";
+import type { TranslationReport } from "./translations.ts";
+import { articleRoute } from "./compile.ts";
+import {
+  BUILD_DIR,
+  ROOT,
+  SITE_URL,
+  escapeXml,
+  languageTag,
+  localeUrl,
+  log,
+  writeText,
+} from "./utils.ts";
+
+export const FEEDS_DIR = path.join(BUILD_DIR, "feeds");
+const FEEDS_URL = "/feeds";
+const SITE_NAME = "Wikipefia";
+
+/** Newest entries kept per feed. */
+const FEED_LIMIT = 50;
+const SUMMARY_LENGTH = 280;
+
+interface FeedEntry {
+  route: string;
+  entitySlug?: string;
+  /** The subject's or teacher's name, prefixed to titles in the site-wide feed. */
+  entityName?: string;
+  title: string;
+  summary: string;
+  author?: string;
+  published: string;
+  updated: string;
+}
+
+interface Feed {
+  locale: Locale;
+  /** Public URL path of the feed itself. */
+  selfPath: string;
+  title: string;
+  subtitle?: string;
+  /** The page the feed belongs to. */
+  pageRoute: string;
+  /** Newest first. */
+  entries: FeedEntry[];
+  /** Used when the feed has no entries. */
+  buildTime: string;
+}
+
+interface FeedArticle {
+  route: string;
+  /** Subject or teacher slug; absent for system articles. */
+  entitySlug?: string;
+  entityName?: Record<Locale, string>;
+  locales: Locale[];
+}
+
+/** Atom wants RFC 3339 timestamps. */
+function atomDate(date: unknown): string | undefined {
+  if (date instanceof Date) return date.toISOString();
+  if (typeof date !== "string" || Number.isNaN(Date.parse(date))) return undefined;
+  return new Date(date).toISOString();
+}
+
+/**
+ * First prose paragraph of an MDX body as plain text. Headings, imports,
+ * components, code and math are skipped.
+ */
+function excerpt(body: string): string | undefined {
+  const paragraphs = body
+    .replace(/```[\s\S]*?```/g, "")
+    .replace(/\$\$[\s\S]*?\$\$/g, "")
+    .split(/\n\s*\n/)
+    .map((p) => p.trim());
+
+  const prose = paragraphs.find((p) => p !== "" && !/^(#|import |export |<|\||>|[-*+] |\d+\. |:::)/.test(p));
+  if (!prose) return undefined;
+
+  const text = prose
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/<[^>]+>/g, "")
+    .replace(/[*_`$]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+  if (text.length <= SUMMARY_LENGTH) return text;
+  return text.slice(0, SUMMARY_LENGTH).replace(/\s+\S*$/, "") + "…";
+}
+
+function collectArticles(manifest: ContentManifest): FeedArticle[] {
+  const articles: FeedArticle[] = [];
+  const entities = [...Object.values(manifest.subjects), ...Object.values(manifest.teachers)];
+  for (const entity of entities) {
+    for (const [slug, article] of Object.entries(entity.articles)) {
+      if (slug === "_front") continue;
+      articles.push({
+        route: articleRoute(entity.config.slug, slug),
+        entitySlug: entity.config.slug,
+        entityName: entity.config.name,
+        locales: article.locales,
+      });
+    }
+  }
+  for (const [slug, article] of Object.entries(manifest.systemArticles)) {
+    articles.push({ route: `/${slug}`, locales: article.locales });
+  }
+  return articles;
+}
+
+/** Read one translation of an article into a feed entry. */
+async function readEntry(
+  manifest: ContentManifest,
+  article: FeedArticle,
+  file: string,
+  locale: Locale
+): Promise<FeedEntry | null> {
+  const { data, content } = matter(await readFile(path.join(ROOT, file), "utf-8"));
+  const published = atomDate(data.created);
+  if (!published) return null;
+
+  const title = data.title?.[locale] ?? data.title?.en ?? path.basename(file, ".mdx");
+  const teacher =
+    typeof data.author === "string"
+      ? manifest.teachers[data.author]
+      : article.entitySlug
+        ? manifest.teachers[article.entitySlug]
+        : undefined;
+
+  return {
+    route: article.route,
+    entitySlug: article.entitySlug,
+    entityName: article.entityName?.[locale],
+    title,
+    summary: excerpt(content) ?? title,
+    author: teacher?.config.name[locale],
+    published,
+    updated: atomDate(data.updated) ?? published,
+  };
+}
+
+function renderFeed({ locale, selfPath, title, subtitle, pageRoute, entries, buildTime }: Feed): string {
+  const feedUrl = `${SITE_URL}${selfPath}`;
+  const updated = entries[0]?.updated ?? buildTime;
+
+  const lines = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${languageTag(locale)}">`,
+    `  <id>${escapeXml(feedUrl)}</id>`,
+    `  <title>${escapeXml(title)}</title>`,
+    ...(subtitle ? [`  <subtitle>${escapeXml(subtitle)}</subtitle>`] : []),
+    `  <updated>${updated}</updated>`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(feedUrl)}"/>`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(localeUrl(pageRoute, locale))}"/>`,
+    `  <author><name>${SITE_NAME}</name></author>`,
+  ];
+
+  for (const entry of entries) {
+    const url = escapeXml(localeUrl(entry.route, locale));
+    lines.push(
+      `  <entry>`,
+      `    <id>${url}</id>`,
+      `    <title>${escapeXml(entry.title)}</title>`,
+      `    <link rel="alternate" type="text/html" href="${url}"/>`,
+      `    <published>${entry.published}</published>`,
+      `    <updated>${entry.updated}</updated>`,
+      ...(entry.author ? [`    <author><name>${escapeXml(entry.author)}</name></author>`] : []),
+      `    <summary>${escapeXml(entry.summary)}</summary>`,
+      `  </entry>`
+    );
+  }
+
+  lines.push(`</feed>`, "");
+  return lines.join("\n");
+}
+
+/** Public URL of a feed; `slug` omitted for the site-wide one. */
+export function feedPath(locale: string, slug?: string): string {
+  return `${FEEDS_URL}/${locale}/${slug ?? "all"}.xml`;
+}
+
+export async function writeFeeds(manifest: ContentManifest, translations: TranslationReport) {
+  const files = new Map(translations.articles.map((a) => [a.route, a.locales]));
+  const articles = collectArticles(manifest);
+  let written = 0;
+
+  for (const locale of LOCALES) {
+    const entries: FeedEntry[] = [];
+    for (const article of articles) {
+      const file = files.get(article.route)?.[locale].file;
+      if (!file || !article.locales.includes(locale)) continue;
+      const entry = await readEntry(manifest, article, file, locale);
+      if (entry) entries.push(entry);
+    }
+    // Newest first; ISO timestamps sort lexically
+    entries.sort((a, b) => b.updated.localeCompare(a.updated));
+
+    const write = async (slug: string | undefined, feed: Pick<Feed, "title" | "subtitle" | "pageRoute">) => {
+      const xml = renderFeed({
+        ...feed,
+        locale,
+        selfPath: feedPath(locale, slug),
+        entries: slug
+          ? entries.filter((e) => e.entitySlug === slug).slice(0, FEED_LIMIT)
+          : entries
+              .slice(0, FEED_LIMIT)
+              .map((e) => (e.entityName ? { ...e, title: `${e.entityName} — ${e.title}` } : e)),
+        buildTime: manifest.buildTime,
+      });
+      await writeText(path.join(FEEDS_DIR, locale, `${slug ?? "all"}.xml`), xml);
+      written++;
+    };
+
+    await write(undefined, { title: SITE_NAME, pageRoute: "/" });
+    const entities = [...Object.values(manifest.subjects), ...Object.values(manifest.teachers)];
+    for (const { config } of entities) {
+      await write(config.slug, {
+        title: `${SITE_NAME} — ${config.name[locale]}`,
+        subtitle: config.description[locale],
+        pageRoute: `/${config.slug}`,
+      });
+    }
+  }
+
+  log(`${written} feed(s) written.`);
+}
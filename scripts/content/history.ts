@@ -0,0 +1,120 @@
+/**
+ * Step 7: Last-modified dates and contributors from git.
+ *
+ * When a content repo is a git checkout with full history, every article
+ * file gets the date of the last commit that touched it and the names of
+ * everyone who committed to it (most commits first). A hand-written
+ * `updated` in the frontmatter still wins over the git date. Shallow
+ * clones and plain directories (CI tarballs) are skipped — their history
+ * would only say when the content was pulled.
+ *
+ * One `git log` runs per repo, not per file.
+ */
+
+import { execFile } from "child_process";
+import { promisify } from "util";
+import path from "path";
+import type { LocaleHistory } from "@wikipefia/mdx-compiler";
+import { articleRoute, type ArticleFile } from "./compile.ts";
+import { ROOT, log } from "./utils.ts";
+
+const execFileAsync = promisify(execFile);
+
+/** Keyed by page route. */
+export type ResolvedHistory = Map<string, LocaleHistory>;
+
+interface FileLog {
+  /** Newest first, as git prints it. */
+  dates: string[];
+  commits: Map<string, number>;
+}
+
+async function git(cwd: string, args: string[]): Promise<string | null> {
+  try {
+    const { stdout } = await execFileAsync("git", args, { cwd, maxBuffer: 64 * 1024 * 1024 });
+    return stdout;
+  } catch {
+    // Not a repository, or git isn't installed
+    return null;
+  }
+}
+
+/** Top-level directory of the git checkout containing `dir`, if it has full history. */
+async function repoRoot(dir: string): Promise<string | null> {
+  const out = await git(dir, ["rev-parse", "--show-toplevel", "--is-shallow-repository"]);
+  if (!out) return null;
+  const [root, shallow] = out.trim().split("\n");
+  if (shallow === "true") {
+    log(`${path.relative(ROOT, root) || "."}: shallow clone, using frontmatter dates only.`);
+    return null;
+  }
+  return root;
+}
+
+/** Per-file log of a repo, keyed by absolute path. */
+async function readRepoLog(root: string, paths: string[]): Promise<Map<string, FileLog>> {
+  const logs = new Map<string, FileLog>();
+  const out = await git(root, [
+    "-c",
+    "core.quotepath=off",
+    "log",
+    "--format=%x1e%as%x1f%an",
+    "--name-only",
+    "--no-renames",
+    "--",
+    ...paths,
+  ]);
+  if (!out) return logs;
+
+  for (const commit of out.split("\x1e").slice(1)) {
+    const [header, ...files] = commit.split("\n");
+    const [date, author] = header.split("\x1f");
+    for (const file of files) {
+      if (!file) continue;
+      const filePath = path.join(root, file);
+      const entry: FileLog = logs.get(filePath) ?? { dates: [], commits: new Map() };
+      entry.dates.push(date);
+      entry.commits.set(author, (entry.commits.get(author) ?? 0) + 1);
+      logs.set(filePath, entry);
+    }
+  }
+  return logs;
+}
+
+export async function readHistory(articleFiles: ArticleFile[]): Promise<ResolvedHistory> {
+  const history: ResolvedHistory = new Map();
+
+  // Group files by checkout; article directories usually share one
+  const roots = new Map<string, string | null>();
+  const byRoot = new Map<string, Set<string>>();
+  for (const file of articleFiles) {
+    const dir = path.dirname(path.join(ROOT, file.displayPath));
+    if (!roots.has(dir)) roots.set(dir, await repoRoot(dir));
+    const root = roots.get(dir);
+    if (!root) continue;
+    byRoot.set(root, (byRoot.get(root) ?? new Set()).add(dir));
+  }
+
+  const logs = new Map<string, FileLog>();
+  for (const [root, dirs] of byRoot) {
+    const repoLog = await readRepoLog(root, [...dirs]);
+    for (const [filePath, entry] of repoLog) logs.set(filePath, entry);
+  }
+
+  let fromGit = 0;
+  for (const file of articleFiles) {
+    const entry = logs.get(path.join(ROOT, file.displayPath));
+    const lastModified = file.frontmatter.updated ?? entry?.dates[0];
+    if (!lastModified) continue;
+    if (entry) fromGit++;
+
+    const contributors = entry
+      ? [...entry.commits].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).map(([name]) => name)
+      : [];
+    const route = articleRoute(file.entitySlug, file.slug);
+    history.set(route, { ...history.get(route), [file.locale]: { lastModified, contributors } });
+  }
+
+  log(`History: ${fromGit} of ${articleFiles.length} file(s) found in git.`);
+  return history;
+}
@@ -0,0 +1,236 @@
+/**
+ * Step 5: Validate links between articles, and index them backwards.
+ *
+ * Every internal href collected by the compiler is resolved the way the
+ * app would serve it: the path must be a known route, and an anchor must
+ * be a heading id in the locale the target page would actually render.
+ * External links are only checked with --check-external, and failures
+ * there are warnings — a flaky remote site shouldn't break the build.
+ *
+ * The same resolution feeds the backlink index: for every article, the
+ * articles that link to it, shown as "Linked from" on the article page.
+ */
+
+import { existsSync } from "fs";
+import path from "path";
+import { LOCALES, type Backlink, type Locale, type LocaleBacklinks } from "@wikipefia/mdx-compiler";
+import type { CompiledPage } from "./compile.ts";
+import type { SlugRegistry } from "./routes.ts";
+import { RESERVED_SLUGS, ROOT, languageTag, log } from "./utils.ts";
+import { buildErrors } from "./report.ts";
+
+/** App pages that exist outside the content route map. */
+const STATIC_ROUTES = new Set(["/", "/explore"]);
+
+const EXTERNAL_TIMEOUT_MS = 10_000;
+const EXTERNAL_CONCURRENCY = 8;
+
+/** Mirrors resolveLocale() in lib/i18n/helpers.ts. */
+function resolveLocale(available: Locale[], requested: Locale): Locale {
+  if (available.includes(requested)) return requested;
+  if (available.includes("en")) return "en";
+  if (available.includes("ru")) return "ru";
+  return available[0];
+}
+
+function location(page: CompiledPage, line?: number, column?: number): string {
+  return line
+    ? `${page.displayPath}:${line + page.lineOffset}:${column ?? 1}`
+    : page.displayPath;
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/** Path and anchor an internal href points at, as seen from `fromRoute`. */
+function resolveHref(href: string, fromRoute: string): { pathname: string; anchor: string } {
+  const url = new URL(href, `http://wikipefia.invalid${fromRoute}`);
+  return {
+    pathname: safeDecode(url.pathname).replace(/\/+$/, "") || "/",
+    anchor: safeDecode(url.hash.slice(1)),
+  };
+}
+
+async function checkExternalUrl(url: string): Promise<string | null> {
+  const attempt = (method: "HEAD" | "GET") =>
+    fetch(url, {
+      method,
+      redirect: "follow",
+      signal: AbortSignal.timeout(EXTERNAL_TIMEOUT_MS),
+    });
+  try {
+    let res = await attempt("HEAD");
+    // Plenty of servers reject HEAD outright
+    if (res.status === 405 || res.status === 501) res = await attempt("GET");
+    return res.ok ? null : `HTTP ${res.status}`;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+}
+
+export async function validateLinks(
+  slugRegistry: SlugRegistry,
+  compiledPages: CompiledPage[],
+  options: { checkExternal?: boolean } = {}
+) {
+  const errorsBefore = buildErrors.count;
+
+  // Every route the content defines, with the compiled locales behind it
+  const routes = new Map<string, Map<Locale, CompiledPage>>();
+  for (const slug of slugRegistry.keys()) {
+    routes.set(`/${slug}`, new Map());
+  }
+  for (const page of compiledPages) {
+    if (!routes.has(page.route)) routes.set(page.route, new Map());
+    routes.get(page.route)!.set(page.locale, page);
+  }
+
+  const external = new Map<string, { page: CompiledPage; line?: number; column?: number }[]>();
+  let internalCount = 0;
+
+  for (const page of compiledPages) {
+    for (const link of page.links) {
+      if (link.kind === "external") {
+        if (!/^https?:/i.test(link.href)) continue;
+        const uses = external.get(link.href) ?? [];
+        uses.push({ page, line: link.line, column: link.column });
+        external.set(link.href, uses);
+        continue;
+      }
+
+      internalCount++;
+      const at = {
+        file: page.displayPath,
+        line: link.line !== undefined ? link.line + page.lineOffset : undefined,
+        column: link.column,
+      };
+      const { pathname, anchor } = resolveHref(link.href, page.route);
+
+      const target = routes.get(pathname);
+      if (!target) {
+        const firstSegment = pathname.split("/")[1];
+        const isAppRoute =
+          STATIC_ROUTES.has(pathname) || RESERVED_SLUGS.includes(firstSegment);
+        const isPublicFile = existsSync(path.join(ROOT, "public", pathname));
+        if (!isAppRoute && !isPublicFile) {
+          buildErrors.add({
+            category: "link",
+            ruleId: "link/broken-link",
+            ...at,
+            message: `Broken link "${link.href}": no page at ${pathname}.`,
+          });
+        }
+        continue;
+      }
+
+      // Entity pages without a _front article have no headings to check
+      if (!anchor || target.size === 0) continue;
+
+      const targetLocale = resolveLocale([...target.keys()], page.locale);
+      const targetPage = target.get(targetLocale)!;
+      if (!targetPage.toc.some((entry) => entry.id === anchor)) {
+        const ids = targetPage.toc.map((entry) => entry.id).filter(Boolean);
+        buildErrors.add({
+          category: "link",
+          ruleId: "link/broken-anchor",
+          ...at,
+          message:
+            `Broken anchor "${link.href}": ${pathname} (${targetLocale}) has no heading with id "${anchor}".\n` +
+            `Headings: ${ids.length > 0 ? ids.join(", ") : "(none)"}`,
+        });
+      }
+    }
+  }
+
+  if (buildErrors.count > errorsBefore) return;
+  log(`Internal links valid: ${internalCount} link(s) checked.`);
+
+  if (!options.checkExternal) {
+    if (external.size > 0) {
+      log(`Skipped ${external.size} external URL(s) (pass --check-external to check them).`);
+    }
+    return;
+  }
+
+  // Check each distinct URL once, a few at a time
+  const urls = [...external.keys()];
+  let failed = 0;
+  let next = 0;
+  async function worker() {
+    while (next < urls.length) {
+      const url = urls[next++];
+      const problem = await checkExternalUrl(url);
+      if (!problem) continue;
+      failed++;
+      for (const use of external.get(url)!) {
+        console.warn(`  ⚠ ${location(use.page, use.line, use.column)}: external link ${url} failed (${problem})`);
+        buildErrors.note({
+          category: "link",
+          ruleId: "link/external-unreachable",
+          severity: "warning",
+          file: use.page.displayPath,
+          line: use.line !== undefined ? use.line + use.page.lineOffset : undefined,
+          column: use.column,
+          message: `External link ${url} failed (${problem}).`,
+        });
+      }
+    }
+  }
+  await Promise.all(
+    Array.from({ length: Math.min(EXTERNAL_CONCURRENCY, urls.length) }, worker)
+  );
+  log(`External links: ${urls.length - failed}/${urls.length} reachable.`);
+}
+
+/** Keyed by target route. */
+export type ResolvedBacklinks = Map<string, LocaleBacklinks>;
+
+/**
+ * Which pages link to which, per reader locale. A reader of locale L
+ * sees each linking page in the translation resolveLocale() picks for
+ * L, so only that translation's links count — an English-only page
+ * shows up for Russian readers, a Russian translation's extra links
+ * don't show up for English ones. Self-links are left out.
+ */
+export function resolveBacklinks(compiledPages: CompiledPage[]): ResolvedBacklinks {
+  const byRoute = new Map<string, Map<Locale, CompiledPage>>();
+  for (const page of compiledPages) {
+    if (!byRoute.has(page.route)) byRoute.set(page.route, new Map());
+    byRoute.get(page.route)!.set(page.locale, page);
+  }
+
+  const backlinks: ResolvedBacklinks = new Map();
+  let count = 0;
+  for (const locale of LOCALES) {
+    // Target route → linking route → backlink, in source order
+    const found = new Map<string, Map<string, Backlink>>();
+    for (const [route, translations] of byRoute) {
+      const page = translations.get(resolveLocale([...translations.keys()], locale))!;
+      for (const link of page.links) {
+        if (link.kind === "external") continue;
+        const { pathname } = resolveHref(link.href, route);
+        if (pathname === route || !byRoute.has(pathname)) continue;
+
+        if (!found.has(pathname)) found.set(pathname, new Map());
+        const sources = found.get(pathname)!;
+        const backlink = sources.get(route) ?? { route, title: page.title, anchors: [] };
+        if (link.text && !backlink.anchors.includes(link.text)) backlink.anchors.push(link.text);
+        sources.set(route, backlink);
+      }
+    }
+
+    for (const [target, sources] of found) {
+      const list = [...sources.values()].sort((a, b) => a.title.localeCompare(b.title, languageTag(locale)));
+      backlinks.set(target, { ...backlinks.get(target), [locale]: list });
+      count += list.length;
+    }
+  }
+
+  log(`Backlinks: ${backlinks.size} page(s) linked from others, ${count} backlink(s) across locales.`);
+  return backlinks;
+}
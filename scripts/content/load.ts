@@ -0,0 +1,140 @@
+/**
+ * Step 1: Load and validate subject, teacher and system configs.
+ */
+
+import { existsSync } from "fs";
+import path from "path";
+import { z } from "zod/v4";
+import {
+  SubjectConfig,
+  TeacherConfig,
+  SystemConfig,
+} from "@wikipefia/mdx-compiler";
+import {
+  CONTENT_DIR,
+  ROOT,
+  listDirs,
+  log,
+  logError,
+  readJson,
+} from "./utils.ts";
+import { buildErrors, formatIssuePath } from "./report.ts";
+
+export interface LoadedSubject {
+  config: z.infer<typeof SubjectConfig>;
+  dir: string;
+}
+
+export interface LoadedTeacher {
+  config: z.infer<typeof TeacherConfig>;
+  dir: string;
+}
+
+export interface LoadedSystem {
+  config: z.infer<typeof SystemConfig>;
+  dir: string;
+}
+
+/**
+ * Read and validate a config file. Problems are recorded in buildErrors
+ * and null is returned, so one broken config doesn't stop the build.
+ */
+async function readConfig<T>(
+  configPath: string,
+  schema: z.ZodType<T>
+): Promise<T | null> {
+  const file = path.relative(ROOT, configPath);
+  let raw: unknown;
+  try {
+    raw = await readJson(configPath);
+  } catch (err) {
+    buildErrors.add({
+      category: "config",
+      ruleId: "config/invalid-json",
+      file,
+      message: `Invalid JSON: ${err instanceof Error ? err.message : err}`,
+    });
+    return null;
+  }
+  const parsed = schema.safeParse(raw);
+  if (!parsed.success) {
+    for (const issue of parsed.error.issues) {
+      buildErrors.add({
+        category: "config",
+        ruleId: "config/invalid-field",
+        file,
+        path: formatIssuePath(issue.path),
+        message: issue.message,
+      });
+    }
+    return null;
+  }
+  return parsed.data;
+}
+
+/**
+ * Load a single subject directory. Returns null if it has no config.json
+ * or the config is invalid (the latter is recorded in buildErrors).
+ */
+export async function loadSubject(dir: string): Promise<LoadedSubject | null> {
+  const slug = path.basename(dir);
+  const configPath = path.join(dir, "config.json");
+  if (!existsSync(configPath)) {
+    logError(`Missing config.json for subject: ${slug}`);
+    return null;
+  }
+  const config = await readConfig(configPath, SubjectConfig);
+  return config ? { config, dir } : null;
+}
+
+/**
+ * Load a single teacher directory. Returns null if it has no config.json
+ * or the config is invalid (the latter is recorded in buildErrors).
+ */
+export async function loadTeacher(dir: string): Promise<LoadedTeacher | null> {
+  const slug = path.basename(dir);
+  const configPath = path.join(dir, "config.json");
+  if (!existsSync(configPath)) {
+    logError(`Missing config.json for teacher: ${slug}`);
+    return null;
+  }
+  const config = await readConfig(configPath, TeacherConfig);
+  return config ? { config, dir } : null;
+}
+
+export async function loadSubjects(): Promise<LoadedSubject[]> {
+  const subjectsDir = path.join(CONTENT_DIR, "subjects");
+  const slugs = await listDirs(subjectsDir);
+  const results: LoadedSubject[] = [];
+
+  for (const slug of slugs) {
+    const subject = await loadSubject(path.join(subjectsDir, slug));
+    if (subject) results.push(subject);
+  }
+
+  return results;
+}
+
+export async function loadTeachers(): Promise<LoadedTeacher[]> {
+  const teachersDir = path.join(CONTENT_DIR, "teachers");
+  const slugs = await listDirs(teachersDir);
+  const results: LoadedTeacher[] = [];
+
+  for (const slug of slugs) {
+    const teacher = await loadTeacher(path.join(teachersDir, slug));
+    if (teacher) results.push(teacher);
+  }
+
+  return results;
+}
+
+export async function loadSystem(): Promise<LoadedSystem | null> {
+  const systemDir = path.join(CONTENT_DIR, "system");
+  const configPath = path.join(systemDir, "config.json");
+  if (!existsSync(configPath)) {
+    log("No system config found — skipping system articles.");
+    return null;
+  }
+  const config = await readConfig(configPath, SystemConfig);
+  return config ? { config, dir: systemDir } : null;
+}
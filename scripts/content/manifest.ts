@@ -0,0 +1,296 @@
+/**
+ * Step 9: Assemble the content manifest consumed by the app at runtime.
+ *
+ * The build keeps the whole manifest in memory, but writes it sharded so
+ * a page only parses what it renders: manifest/index.json holds the route
+ * map and system articles, and every subject and teacher gets its own
+ * manifest/<subjects|teachers>/<slug>.json.
+ */
+
+import { readdir, rm } from "fs/promises";
+import { existsSync } from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import {
+  COMPILER_VERSION,
+  LOCALES,
+  MANIFEST_VERSION,
+  ContentManifest,
+  type ContentAsset,
+  type LocalizedString,
+  type PrerequisiteRef,
+  type RouteIndex,
+  type RouteIndexEntry,
+  type SubjectManifest,
+  type TeacherManifest,
+} from "@wikipefia/mdx-compiler";
+import type { LoadedSubject, LoadedTeacher, LoadedSystem } from "./load.ts";
+import type { SlugRegistry } from "./routes.ts";
+import { articleRoute, type ArticleMap, type SystemArticleMap } from "./compile.ts";
+import type { ResolvedAssets } from "./assets.ts";
+import type { ResolvedHistory } from "./history.ts";
+import type { ResolvedBacklinks } from "./links.ts";
+import { allPrerequisites, readingOrder, type PrerequisiteGraph } from "./prerequisites.ts";
+import { BUILD_DIR, log, writeJsonAtomic } from "./utils.ts";
+
+export const MANIFEST_DIR = path.join(BUILD_DIR, "manifest");
+
+const ROUTE_TYPES: Record<string, RouteIndexEntry["type"]> = {
+  Subject: "subject",
+  Teacher: "teacher",
+  "System Article": "system-article",
+};
+
+/** Shard of a subject or teacher, relative to MANIFEST_DIR. */
+function shardPath(kind: "subjects" | "teachers", slug: string): string {
+  return `${kind}/${slug}.json`;
+}
+
+export function buildManifest(
+  subjects: LoadedSubject[],
+  teachers: LoadedTeacher[],
+  system: LoadedSystem | null,
+  subjectArticleData: Record<string, ArticleMap>,
+  teacherArticleData: Record<string, ArticleMap>,
+  systemArticleData: SystemArticleMap,
+  assets: ResolvedAssets,
+  history: ResolvedHistory,
+  backlinks: ResolvedBacklinks,
+  prerequisites: PrerequisiteGraph,
+  slugRegistry: SlugRegistry
+): ContentManifest {
+  // Route map
+  const routeMap: RouteIndex["routeMap"] = {};
+  for (const [slug, info] of slugRegistry) {
+    routeMap[slug] = { type: ROUTE_TYPES[info.type] };
+  }
+
+  // Build teacher lookup for resolving
+  const teacherMap = new Map(
+    teachers.map((t) => [t.config.slug, t.config])
+  );
+  const subjectMap = new Map(
+    subjects.map((s) => [s.config.slug, s.config])
+  );
+
+  // Published photo, or the configured URL when it wasn't a relative path
+  const teacherPhoto = (t: LoadedTeacher["config"]): ContentAsset | undefined =>
+    assets.teacherPhotos.get(t.slug) ?? (t.photo ? { src: t.photo } : undefined);
+
+  // Every article in one reading order; where prerequisites don't
+  // decide, subjects' articles keep their category order and teachers'
+  // their section order
+  const titles = new Map<string, LocalizedString>();
+  const listed = (entitySlug: string, articles: ArticleMap, groups: { articles: string[] }[]) =>
+    [...new Set([...groups.flatMap((g) => g.articles), ...Object.keys(articles)])]
+      .filter((slug) => articles[slug])
+      .map((slug) => {
+        const route = articleRoute(entitySlug, slug);
+        titles.set(route, articles[slug].frontmatter.title);
+        return route;
+      });
+  const order = readingOrder(prerequisites, [
+    ...subjects.flatMap((s) =>
+      listed(s.config.slug, subjectArticleData[s.config.slug] || {}, s.config.categories)
+    ),
+    ...teachers.flatMap((t) =>
+      listed(t.config.slug, teacherArticleData[t.config.slug] || {}, t.config.sections || [])
+    ),
+  ]);
+
+  const prerequisiteRefs = (route: string): PrerequisiteRef[] | undefined => {
+    const all = allPrerequisites(prerequisites, route);
+    if (all.size === 0) return undefined;
+    const direct = prerequisites.edges.get(route) ?? [];
+    return order
+      .filter((r) => all.has(r))
+      .map((r) => ({ route: r, title: titles.get(r)!, direct: direct.includes(r) }));
+  };
+
+  // Attach published images, git history, backlinks and prerequisites to
+  // every article that has any
+  const withPageData = (articles: ArticleMap, entitySlug: string): ArticleMap =>
+    Object.fromEntries(
+      Object.entries(articles).map(([slug, article]) => {
+        const route = articleRoute(entitySlug, slug);
+        const pageAssets = assets.pages.get(route);
+        const pageHistory = history.get(route);
+        const pageBacklinks = backlinks.get(route);
+        const pagePrerequisites = prerequisiteRefs(route);
+        return [
+          slug,
+          {
+            ...article,
+            ...(pageAssets && { assets: pageAssets }),
+            ...(pageHistory && { history: pageHistory }),
+            ...(pageBacklinks && { backlinks: pageBacklinks }),
+            ...(pagePrerequisites && { prerequisites: pagePrerequisites }),
+          },
+        ];
+      })
+    );
+
+  // Subjects manifest
+  const subjectsManifest: Record<string, SubjectManifest> = {};
+  for (const s of subjects) {
+    const resolvedTeachers = s.config.teachers
+      .map((tSlug) => {
+        const t = teacherMap.get(tSlug);
+        if (!t) {
+          console.warn(
+            `Warning: Subject "${s.config.slug}" references unknown teacher "${tSlug}"`
+          );
+          return null;
+        }
+        return {
+          slug: t.slug,
+          name: t.name,
+          ratings: t.ratings,
+          photo: teacherPhoto(t),
+        };
+      })
+      .filter((entry) => entry !== null);
+
+    // Assign categories to articles
+    const articles = withPageData(subjectArticleData[s.config.slug] || {}, s.config.slug);
+    for (const cat of s.config.categories) {
+      for (const articleSlug of cat.articles) {
+        if (articles[articleSlug]) {
+          articles[articleSlug] = {
+            ...articles[articleSlug],
+            category: cat.slug,
+          };
+        }
+      }
+    }
+
+    subjectsManifest[s.config.slug] = {
+      config: s.config,
+      entityType: "subject",
+      resolvedTeachers,
+      articles,
+      readingOrder: order
+        .filter((route) => route.startsWith(`/${s.config.slug}/`))
+        .map((route) => route.slice(s.config.slug.length + 2)),
+    };
+  }
+
+  // Teachers manifest
+  const teachersManifest: Record<string, TeacherManifest> = {};
+  for (const t of teachers) {
+    const resolvedSubjects = t.config.subjects
+      .map((sSlug) => {
+        const s = subjectMap.get(sSlug);
+        if (!s) {
+          console.warn(
+            `Warning: Teacher "${t.config.slug}" references unknown subject "${sSlug}"`
+          );
+          return null;
+        }
+        return { slug: s.slug, name: s.name };
+      })
+      .filter((entry) => entry !== null);
+
+    // Assign sections to articles
+    const articles = withPageData(teacherArticleData[t.config.slug] || {}, t.config.slug);
+    if (t.config.sections) {
+      for (const sec of t.config.sections) {
+        for (const articleSlug of sec.articles) {
+          if (articles[articleSlug]) {
+            articles[articleSlug] = {
+              ...articles[articleSlug],
+              section: sec.slug,
+            };
+          }
+        }
+      }
+    }
+
+    teachersManifest[t.config.slug] = {
+      config: t.config,
+      entityType: "teacher",
+      resolvedSubjects,
+      photo: teacherPhoto(t.config),
+      articles,
+    };
+  }
+
+  const systemArticles: SystemArticleMap = Object.fromEntries(
+    Object.entries(systemArticleData).map(([slug, article]) => {
+      const pageAssets = assets.pages.get(`/${slug}`);
+      return [slug, pageAssets ? { ...article, assets: pageAssets } : article];
+    })
+  );
+
+  // Compute build hash
+  const hashContent = JSON.stringify({
+    subjects: subjectsManifest,
+    teachers: teachersManifest,
+    systemArticles,
+  });
+  const buildHash = createHash("sha256")
+    .update(hashContent)
+    .digest("hex")
+    .slice(0, 12);
+
+  // Subjects and teachers are written as shards the index points at
+  for (const [kind, entries] of [
+    ["subjects", subjectsManifest],
+    ["teachers", teachersManifest],
+  ] as const) {
+    for (const [slug, entry] of Object.entries(entries)) {
+      routeMap[slug] = { ...routeMap[slug], shard: shardPath(kind, slug), articles: Object.keys(entry.articles) };
+    }
+  }
+
+  return {
+    manifestVersion: MANIFEST_VERSION,
+    compilerVersion: COMPILER_VERSION,
+    buildHash,
+    buildTime: new Date().toISOString(),
+    locales: [...LOCALES],
+    routeMap,
+    subjects: subjectsManifest,
+    teachers: teachersManifest,
+    systemArticles,
+  };
+}
+
+export async function writeManifest(manifest: ContentManifest) {
+  // The app validates what it reads against the same schema — catch a
+  // mismatch here rather than as a broken page
+  const parsed = ContentManifest.safeParse(manifest);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((i) => `  ${i.path.join(".")}: ${i.message}`);
+    throw new Error(`Generated manifest doesn't match its schema:\n${issues.join("\n")}`);
+  }
+  const { subjects, teachers, ...index } = parsed.data;
+
+  // Shards first and the index last, all atomic: the app's loader may
+  // re-read at any time in dev and must never see an index pointing at
+  // a shard that isn't there yet
+  const kinds = [
+    ["subjects", subjects],
+    ["teachers", teachers],
+  ] as const;
+  const shards = new Set<string>();
+  for (const [kind, entries] of kinds) {
+    for (const [slug, entry] of Object.entries(entries)) {
+      const shard = shardPath(kind, slug);
+      await writeJsonAtomic(path.join(MANIFEST_DIR, shard), entry);
+      shards.add(shard);
+    }
+  }
+  await writeJsonAtomic(path.join(MANIFEST_DIR, "index.json"), index satisfies RouteIndex);
+
+  // Entities removed since the last write (watch mode)
+  for (const [kind] of kinds) {
+    const dir = path.join(MANIFEST_DIR, kind);
+    if (!existsSync(dir)) continue;
+    for (const name of await readdir(dir)) {
+      if (!shards.has(`${kind}/${name}`)) await rm(path.join(dir, name), { force: true });
+    }
+  }
+
+  log(`Manifest written (index + ${shards.size} shard(s)). Build hash: ${manifest.buildHash}`);
+}
@@ -0,0 +1,140 @@
+/**
+ * Prerequisite graph — checked alongside the cross-references in step 4,
+ * turned into reading orders by the manifest in step 9.
+ *
+ * Articles name what to read first in their frontmatter: a bare slug for
+ * an article of the same subject or teacher, `<entity>/<slug>` for one
+ * elsewhere. Every translation's list counts, so the graph is the union
+ * of them. It has to be acyclic — a cycle leaves no order to read in.
+ */
+
+import { articleRoute, type ArticleFile } from "./compile.ts";
+import { log } from "./utils.ts";
+import { buildErrors } from "./report.ts";
+
+/** Where an edge was first declared, for error messages. */
+interface EdgeSource {
+  file: string;
+  path: string;
+}
+
+export interface PrerequisiteGraph {
+  /** Article route → routes of its direct prerequisites, in declaration order. */
+  edges: Map<string, string[]>;
+  sources: Map<string, EdgeSource>;
+}
+
+/** Route of a prerequisite as written in an article of `entitySlug`. */
+export function prerequisiteRoute(entitySlug: string, prereq: string): string {
+  const [entity, slug] = prereq.includes("/") ? prereq.split("/", 2) : [entitySlug, prereq];
+  return articleRoute(entity, slug);
+}
+
+const edgeKey = (from: string, to: string) => `${from}\n${to}`;
+
+/**
+ * Collect every declared prerequisite. Entries that don't resolve to an
+ * article are left out — validateReferences reports them.
+ */
+export function buildPrerequisiteGraph(articleFiles: ArticleFile[]): PrerequisiteGraph {
+  const graph: PrerequisiteGraph = { edges: new Map(), sources: new Map() };
+  const routes = new Set(articleFiles.map((file) => articleRoute(file.entitySlug, file.slug)));
+  for (const file of articleFiles) {
+    const from = articleRoute(file.entitySlug, file.slug);
+    const edges = graph.edges.get(from) ?? [];
+    graph.edges.set(from, edges);
+
+    file.frontmatter.prerequisites?.forEach((prereq, i) => {
+      const to = prerequisiteRoute(file.entitySlug, prereq);
+      if (!routes.has(to) || edges.includes(to)) return;
+      edges.push(to);
+      graph.sources.set(edgeKey(from, to), { file: file.displayPath, path: `prerequisites[${i}]` });
+    });
+  }
+  return graph;
+}
+
+/** Report every cycle once, at the edge that closes it. */
+export function validatePrerequisites(graph: PrerequisiteGraph) {
+  const errorsBefore = buildErrors.count;
+  const state = new Map<string, "visiting" | "done">();
+  const stack: string[] = [];
+  const reported = new Set<string>();
+
+  const visit = (route: string) => {
+    state.set(route, "visiting");
+    stack.push(route);
+    for (const next of graph.edges.get(route) ?? []) {
+      if (state.get(next) === "visiting") {
+        const cycle = [...stack.slice(stack.indexOf(next)), next];
+        const key = [...new Set(cycle)].sort().join("\n");
+        if (reported.has(key)) continue;
+        reported.add(key);
+        buildErrors.add({
+          category: "reference",
+          ruleId: "reference/prerequisite-cycle",
+          ...graph.sources.get(edgeKey(route, next))!,
+          message: `Prerequisite cycle: ${cycle.join(" → ")}.`,
+        });
+      } else if (!state.has(next)) {
+        visit(next);
+      }
+    }
+    stack.pop();
+    state.set(route, "done");
+  };
+
+  for (const route of graph.edges.keys()) {
+    if (!state.has(route)) visit(route);
+  }
+
+  if (buildErrors.count > errorsBefore) return;
+  const count = [...graph.edges.values()].reduce((n, edges) => n + edges.length, 0);
+  log(`Prerequisites acyclic: ${count} edge(s).`);
+}
+
+/**
+ * Topological order of `routes`: every article after its prerequisites,
+ * and otherwise in the order given. The graph must be acyclic.
+ */
+export function readingOrder(graph: PrerequisiteGraph, routes: string[]): string[] {
+  const position = new Map(routes.map((route, i) => [route, i]));
+  const pending = new Map(
+    routes.map((route) => [route, (graph.edges.get(route) ?? []).filter((p) => position.has(p)).length])
+  );
+  const dependents = new Map<string, string[]>();
+  for (const route of routes) {
+    for (const prereq of graph.edges.get(route) ?? []) {
+      if (position.has(prereq)) dependents.set(prereq, [...(dependents.get(prereq) ?? []), route]);
+    }
+  }
+
+  const order: string[] = [];
+  const ready = routes.filter((route) => pending.get(route) === 0);
+  while (ready.length > 0) {
+    // Earliest in the given order first — a graph this size doesn't need a heap
+    ready.sort((a, b) => position.get(a)! - position.get(b)!);
+    const route = ready.shift()!;
+    order.push(route);
+    for (const dependent of dependents.get(route) ?? []) {
+      const left = pending.get(dependent)! - 1;
+      pending.set(dependent, left);
+      if (left === 0) ready.push(dependent);
+    }
+  }
+  return order;
+}
+
+/** Everything to read before `route`, direct and inherited, in no particular order. */
+export function allPrerequisites(graph: PrerequisiteGraph, route: string): Set<string> {
+  const seen = new Set<string>();
+  const visit = (from: string) => {
+    for (const prereq of graph.edges.get(from) ?? []) {
+      if (seen.has(prereq)) continue;
+      seen.add(prereq);
+      visit(prereq);
+    }
+  };
+  visit(route);
+  return seen;
+}
@@ -0,0 +1,138 @@
+/**
+ * Step 4: Validate cross-references between configs and articles.
+ *
+ * buildManifest skips slugs it can't resolve, so without this step a typo
+ * in a category list or frontmatter silently drops an article from
+ * navigation. Every error names the file and the exact path inside it.
+ */
+
+import path from "path";
+import type { LoadedSubject, LoadedTeacher } from "./load.ts";
+import { articleRoute, type ArticleFile, type ArticleMap } from "./compile.ts";
+import { prerequisiteRoute } from "./prerequisites.ts";
+import { ROOT, log } from "./utils.ts";
+import { buildErrors, type BuildError } from "./report.ts";
+
+/** The subject front page — rendered by SubjectFront, never listed in a category. */
+const FRONT_SLUG = "_front";
+
+function configPath(dir: string): string {
+  return path.relative(ROOT, path.join(dir, "config.json"));
+}
+
+export function validateReferences(
+  subjects: LoadedSubject[],
+  teachers: LoadedTeacher[],
+  subjectArticleData: Record<string, ArticleMap>,
+  teacherArticleData: Record<string, ArticleMap>,
+  articleFiles: ArticleFile[]
+) {
+  const errorsBefore = buildErrors.count;
+  const report = (error: Omit<BuildError, "category">) =>
+    buildErrors.add({ category: "reference", ...error });
+  const teacherSlugs = new Set(teachers.map((t) => t.config.slug));
+  const articleRoutes = new Set(
+    [...Object.entries(subjectArticleData), ...Object.entries(teacherArticleData)].flatMap(
+      ([entitySlug, articles]) => Object.keys(articles).map((slug) => articleRoute(entitySlug, slug))
+    )
+  );
+
+  // Category entries must point at real articles; every article needs a category
+  for (const s of subjects) {
+    const source = configPath(s.dir);
+    const articles = subjectArticleData[s.config.slug] ?? {};
+    const listed = new Set<string>();
+
+    s.config.categories.forEach((cat, ci) => {
+      cat.articles.forEach((articleSlug, ai) => {
+        listed.add(articleSlug);
+        if (!articles[articleSlug]) {
+          report({
+            ruleId: "reference/missing-article",
+            file: source,
+            path: `categories[${ci}].articles[${ai}]`,
+            message: `Category "${cat.slug}" lists "${articleSlug}", but no MDX file has that slug.`,
+          });
+        }
+      });
+    });
+
+    for (const articleSlug of Object.keys(articles)) {
+      if (articleSlug === FRONT_SLUG || listed.has(articleSlug)) continue;
+      report({
+        ruleId: "reference/orphan-article",
+        file: source,
+        path: "categories",
+        message:
+          `Orphan article: "${articleSlug}" is not listed in any category.\n` +
+          `Fix: Add "${articleSlug}" to a category's articles.`,
+      });
+    }
+  }
+
+  // Same for teacher sections — teachers without sections list articles flat
+  for (const t of teachers) {
+    if (!t.config.sections) continue;
+    const source = configPath(t.dir);
+    const articles = teacherArticleData[t.config.slug] ?? {};
+    const listed = new Set<string>();
+
+    t.config.sections.forEach((sec, si) => {
+      sec.articles.forEach((articleSlug, ai) => {
+        listed.add(articleSlug);
+        if (!articles[articleSlug]) {
+          report({
+            ruleId: "reference/missing-article",
+            file: source,
+            path: `sections[${si}].articles[${ai}]`,
+            message: `Section "${sec.slug}" lists "${articleSlug}", but no MDX file has that slug.`,
+          });
+        }
+      });
+    });
+
+    for (const articleSlug of Object.keys(articles)) {
+      if (articleSlug === FRONT_SLUG || listed.has(articleSlug)) continue;
+      report({
+        ruleId: "reference/orphan-article",
+        file: source,
+        path: "sections",
+        message:
+          `Orphan article: "${articleSlug}" is not listed in any section.\n` +
+          `Fix: Add "${articleSlug}" to a section's articles.`,
+      });
+    }
+  }
+
+  // Frontmatter references — checked per file, translations may differ
+  for (const file of articleFiles) {
+    const entityLabel = `${file.entityType === "subjects" ? "subject" : "teacher"} "${file.entitySlug}"`;
+
+    file.frontmatter.prerequisites?.forEach((prereq, i) => {
+      if (!articleRoutes.has(prerequisiteRoute(file.entitySlug, prereq))) {
+        report({
+          ruleId: "reference/dangling-prerequisite",
+          file: file.displayPath,
+          path: `prerequisites[${i}]`,
+          message: prereq.includes("/")
+            ? `Dangling prerequisite: no subject or teacher has an article "${prereq}".`
+            : `Dangling prerequisite: "${prereq}" is not an article of ${entityLabel}.`,
+        });
+      }
+    });
+
+    file.frontmatter.tutors?.forEach((tutor, i) => {
+      if (!teacherSlugs.has(tutor)) {
+        report({
+          ruleId: "reference/dangling-tutor",
+          file: file.displayPath,
+          path: `tutors[${i}]`,
+          message: `Dangling tutor: no teacher has the slug "${tutor}".`,
+        });
+      }
+    });
+  }
+
+  if (buildErrors.count > errorsBefore) return;
+  log(`Cross-references valid across ${articleFiles.length} article file(s).`);
+}
@@ -0,0 +1,167 @@
+/**
+ * Build error report — every step records problems here instead of
+ * stopping the build, so one run shows all of them. The report is
+ * printed grouped by the content repo each file was pulled from, or
+ * handed to formatDiagnostics() for --format output.
+ */
+
+import { existsSync, readFileSync } from "fs";
+import path from "path";
+import type { DiagnosticCode, ValidationDiagnostic } from "@wikipefia/mdx-compiler";
+import { ROOT } from "./utils.ts";
+
+export type BuildErrorCategory =
+  | "config"
+  | "frontmatter"
+  | "mdx-syntax"
+  | "component"
+  | "route"
+  | "reference"
+  | "link"
+  | "asset";
+
+export interface BuildError {
+  category: BuildErrorCategory;
+  /** Catalog code of the check, e.g. "route/slug-collision". */
+  ruleId: DiagnosticCode;
+  /** Path relative to the repo root. */
+  file: string;
+  line?: number;
+  column?: number;
+  /** Location inside a config or frontmatter, e.g. categories[0].articles[1]. */
+  path?: string;
+  message: string;
+}
+
+interface RepoGroup {
+  label: string;
+  dir: string;
+}
+
+/** Format a Zod issue path the way we print config locations. */
+export function formatIssuePath(issuePath: PropertyKey[]): string {
+  return issuePath
+    .map((key, i) =>
+      typeof key === "number" ? `[${key}]` : `${i > 0 ? "." : ""}${String(key)}`
+    )
+    .join("");
+}
+
+/**
+ * Map a file to the repo it came from. content-sources.json knows the repo
+ * names; without it, fall back to the layout pull-content produces
+ * (one repo per subject, one for all teachers, one for system).
+ */
+function loadRepoGroups(): RepoGroup[] {
+  const sourcesPath = path.join(ROOT, "content-sources.json");
+  if (!existsSync(sourcesPath)) return [];
+  try {
+    const sources = JSON.parse(readFileSync(sourcesPath, "utf-8"));
+    return [...(sources.subjects ?? []), sources.teachers, sources.system]
+      .filter(Boolean)
+      .map((s: { repo: string; targetDir: string }) => ({
+        label: s.repo,
+        dir: path.normalize(s.targetDir),
+      }));
+  } catch {
+    return [];
+  }
+}
+
+function repoFor(file: string, groups: RepoGroup[]): RepoGroup {
+  const match = groups
+    .filter((g) => file === g.dir || file.startsWith(g.dir + path.sep))
+    .sort((a, b) => b.dir.length - a.dir.length)[0];
+  if (match) return match;
+
+  const parts = file.split(path.sep);
+  const depth = parts[1] === "subjects" ? 3 : 2;
+  const dir = parts.slice(0, depth).join(path.sep);
+  return { label: dir, dir };
+}
+
+/** A problem that doesn't fail the build, kept for --format output. */
+export interface BuildNotice extends BuildError {
+  severity: ValidationDiagnostic["severity"];
+}
+
+class BuildErrorReport {
+  readonly errors: BuildError[] = [];
+  readonly notices: BuildNotice[] = [];
+
+  add(error: BuildError) {
+    this.errors.push(error);
+  }
+
+  /** Record something already shown as a warning; it never fails the build. */
+  note(notice: BuildNotice) {
+    this.notices.push(notice);
+  }
+
+  get count(): number {
+    return this.errors.length;
+  }
+
+  /** Forget everything — the watcher starts each batch fresh. */
+  reset() {
+    this.errors.length = 0;
+    this.notices.length = 0;
+  }
+
+  /** Everything recorded, as the compiler's diagnostic records. */
+  toDiagnostics(): ValidationDiagnostic[] {
+    const toDiagnostic = (
+      e: BuildError,
+      severity: ValidationDiagnostic["severity"]
+    ): ValidationDiagnostic => ({
+      message: e.path ? `${e.path}: ${e.message}` : e.message,
+      severity,
+      file: e.file,
+      line: e.line,
+      column: e.column,
+      category: e.category,
+      ruleId: e.ruleId,
+    });
+    return [
+      ...this.errors.map((e) => toDiagnostic(e, "error")),
+      ...this.notices.map((n) => toDiagnostic(n, n.severity)),
+    ];
+  }
+
+  print() {
+    const repoGroups = loadRepoGroups();
+    const byRepo = new Map<string, { group: RepoGroup; errors: BuildError[] }>();
+    for (const error of this.errors) {
+      const group = repoFor(error.file, repoGroups);
+      const entry = byRepo.get(group.dir) ?? { group, errors: [] };
+      entry.errors.push(error);
+      byRepo.set(group.dir, entry);
+    }
+
+    console.error("\n" + "=".repeat(60));
+    console.error(
+      `  BUILD FAILED — ${this.count} error(s) in ${byRepo.size} content repo(s)`
+    );
+    console.error("=".repeat(60));
+
+    const groups = [...byRepo.values()].sort((a, b) =>
+      a.group.dir.localeCompare(b.group.dir)
+    );
+    for (const { group, errors } of groups) {
+      const heading =
+        group.label === group.dir ? group.label : `${group.label} (${group.dir})`;
+      console.error(`\n▸ ${heading} — ${errors.length} error(s)`);
+      for (const e of errors) {
+        let where = e.file;
+        if (e.line) where += `:${e.line}:${e.column ?? 1}`;
+        if (e.path) where += ` → ${e.path}`;
+        console.error(`\n  [${e.ruleId}] ${where}`);
+        console.error(`    ${e.message.split("\n").join("\n    ")}`);
+      }
+    }
+    console.error("\nRun `pnpm content:explain <code>` for what a code means and how to fix it.");
+    console.error("");
+  }
+}
+
+export const buildErrors = new BuildErrorReport();
@@ -0,0 +1,95 @@
+/**
+ * Step 2: Validate the flat route namespace.
+ *
+ * Subjects, teachers and system articles all live at /<slug>, so slugs
+ * must be globally unique and must not shadow reserved app routes.
+ */
+
+import path from "path";
+import type { LoadedSubject, LoadedTeacher, LoadedSystem } from "./load.ts";
+import { RESERVED_SLUGS, ROOT, log } from "./utils.ts";
+import { buildErrors } from "./report.ts";
+
+export type SlugRegistry = Map<string, { type: string; source: string }>;
+
+/**
+ * Register every top-level slug. Conflicts are recorded in buildErrors;
+ * the losing entity is left out of the returned registry.
+ */
+export function validateRoutes(
+  subjects: LoadedSubject[],
+  teachers: LoadedTeacher[],
+  system: LoadedSystem | null
+) {
+  const errorsBefore = buildErrors.count;
+  const slugRegistry: SlugRegistry = new Map();
+
+  function registerSlug(slug: string, type: string, source: string, at: string) {
+    if (RESERVED_SLUGS.includes(slug)) {
+      buildErrors.add({
+        category: "route",
+        ruleId: "route/reserved-slug",
+        file: source,
+        path: at,
+        message:
+          `${type} "${slug}" uses a reserved slug.\n` +
+          `Reserved: ${RESERVED_SLUGS.join(", ")}`,
+      });
+      return;
+    }
+    const existing = slugRegistry.get(slug);
+    if (existing) {
+      buildErrors.add({
+        category: "route",
+        ruleId: "route/slug-collision",
+        file: source,
+        path: at,
+        message:
+          `Slug collision: "${slug}" is already claimed by ${existing.type} (${existing.source}).\n` +
+          `Fix: Rename one to use a different slug.`,
+      });
+      return;
+    }
+    slugRegistry.set(slug, { type, source });
+  }
+
+  const configPath = (dir: string) => path.relative(ROOT, path.join(dir, "config.json"));
+
+  for (const s of subjects) {
+    registerSlug(s.config.slug, "Subject", configPath(s.dir), "slug");
+  }
+
+  for (const t of teachers) {
+    registerSlug(t.config.slug, "Teacher", configPath(t.dir), "slug");
+  }
+
+  if (system) {
+    system.config.articles.forEach((a, i) => {
+      registerSlug(a.slug, "System Article", configPath(system.dir), `articles[${i}].slug`);
+    });
+  }
+
+  // Check for article slug duplicates within each subject
+  for (const s of subjects) {
+    const articleSlugs = new Set<string>();
+    s.config.categories.forEach((cat, ci) => {
+      cat.articles.forEach((articleSlug, ai) => {
+        if (articleSlugs.has(articleSlug)) {
+          buildErrors.add({
+            category: "route",
+            ruleId: "route/duplicate-article",
+            file: configPath(s.dir),
+            path: `categories[${ci}].articles[${ai}]`,
+            message: `Article "${articleSlug}" is listed in multiple categories.`,
+          });
+        }
+        articleSlugs.add(articleSlug);
+      });
+    });
+  }
+
+  if (buildErrors.count === errorsBefore) {
+    log(`Route validation passed. ${slugRegistry.size} unique slugs.`);
+  }
+  return slugRegistry;
+}
@@ -0,0 +1,202 @@
+/**
+ * Step 8: Generate per-locale search indexes.
+ *
+ * Besides one entry per subject, teacher and article, every article
+ * translation contributes its body text in chunks, one or more per
+ * heading section, so a term that only appears in the text is found and
+ * the result links straight to its section.
+ *
+ * The FlexSearch index itself is built here too and shipped with the
+ * entries (lib/search/engine.ts), so browsers don't index on load.
+ */
+
+import path from "path";
+import { createHash } from "crypto";
+import { LOCALES, type Locale } from "@wikipefia/mdx-compiler";
+import type { LoadedSubject, LoadedTeacher, LoadedSystem } from "./load.ts";
+import type { ArticleMap, CompiledPage } from "./compile.ts";
+import { BUILD_DIR, log, writeJson, writeJsonAtomic } from "./utils.ts";
+import { buildSearchIndex, SEARCH_INDEX_VERSION } from "../../lib/search/engine.ts";
+import type { SearchEntry } from "../../lib/content/types.ts";
+
+/** Longest body chunk, in characters; longer sections are split at word boundaries. */
+const CHUNK_LENGTH = 1000;
+
+const ARTICLE_TYPES = new Set(["subject-article", "teacher-article", "system-article"]);
+
+function chunkText(text: string): string[] {
+  const chunks: string[] = [];
+  let rest = text;
+  while (rest.length > CHUNK_LENGTH) {
+    const cut = rest.lastIndexOf(" ", CHUNK_LENGTH);
+    const end = cut > CHUNK_LENGTH / 2 ? cut : CHUNK_LENGTH;
+    chunks.push(rest.slice(0, end).trim());
+    rest = rest.slice(end).trim();
+  }
+  if (rest) chunks.push(rest);
+  return chunks;
+}
+
+/** Body chunks of an article entry, from its translation in `locale`. */
+function bodyEntries(article: SearchEntry, page: CompiledPage): SearchEntry[] {
+  return page.sections.flatMap((section) =>
+    chunkText(section.text).map((text, i) => ({
+      id: `${article.id}#${section.id ?? ""}:${i}`,
+      type: article.type,
+      slug: article.slug,
+      parentSlug: article.parentSlug,
+      title: article.title,
+      description: article.description,
+      keywords: [],
+      updated: article.updated,
+      route: section.id ? `${article.route}#${section.id}` : article.route,
+      heading: section.heading,
+      text,
+      extra: article.extra,
+    }))
+  );
+}
+
+export function generateSearchIndexes(
+  subjects: LoadedSubject[],
+  teachers: LoadedTeacher[],
+  system: LoadedSystem | null,
+  subjectArticles: Record<string, ArticleMap>,
+  teacherArticles: Record<string, ArticleMap>,
+  compiledPages: CompiledPage[]
+): Record<string, SearchEntry[]> {
+  const indexes: Record<string, SearchEntry[]> = {};
+  const pages = new Map<string, CompiledPage>(
+    compiledPages.map((page) => [`${page.locale}:${page.route}`, page])
+  );
+  const pageOf = (locale: Locale, route: string) => pages.get(`${locale}:${route}`);
+
+  for (const locale of LOCALES) {
+    const entries: SearchEntry[] = [];
+
+    // Subject entries
+    for (const s of subjects) {
+      entries.push({
+        id: `subject:${s.config.slug}`,
+        type: "subject",
+        slug: s.config.slug,
+        title: s.config.name[locale],
+        description: s.config.description[locale],
+        keywords: s.config.keywords[locale],
+        route: `/${s.config.slug}`,
+        extra: {
+          difficulty: s.config.metadata?.difficulty,
+          semester: s.config.metadata?.semester,
+        },
+      });
+
+      // Subject articles
+      const articles = subjectArticles[s.config.slug] || {};
+      for (const [slug, article] of Object.entries(articles)) {
+        if (slug === "_front") continue;
+        entries.push({
+          id: `subject-article:${s.config.slug}/${slug}`,
+          type: "subject-article",
+          slug,
+          parentSlug: s.config.slug,
+          title: article.frontmatter.title[locale],
+          description: `${s.config.name[locale]} — ${article.frontmatter.title[locale]}`,
+          keywords: article.frontmatter.keywords[locale],
+          updated: article.frontmatter.updated ?? article.frontmatter.created,
+          route: `/${s.config.slug}/${slug}`,
+          extra: { difficulty: article.frontmatter.difficulty },
+        });
+      }
+    }
+
+    // Teacher entries
+    for (const t of teachers) {
+      entries.push({
+        id: `teacher:${t.config.slug}`,
+        type: "teacher",
+        slug: t.config.slug,
+        title: t.config.name[locale],
+        description: t.config.description[locale],
+        keywords: t.config.keywords[locale],
+        route: `/${t.config.slug}`,
+        extra: { teacherRating: t.config.ratings.overall },
+      });
+
+      // Teacher articles
+      const articles = teacherArticles[t.config.slug] || {};
+      for (const [slug, article] of Object.entries(articles)) {
+        if (slug === "_front") continue;
+        entries.push({
+          id: `teacher-article:${t.config.slug}/${slug}`,
+          type: "teacher-article",
+          slug,
+          parentSlug: t.config.slug,
+          title: article.frontmatter.title[locale],
+          description: `${t.config.name[locale]} — ${article.frontmatter.title[locale]}`,
+          keywords: article.frontmatter.keywords[locale],
+          updated: article.frontmatter.updated ?? article.frontmatter.created,
+          route: `/${t.config.slug}/${slug}`,
+        });
+      }
+    }
+
+    // System articles
+    if (system) {
+      for (const a of system.config.articles) {
+        entries.push({
+          id: `system:${a.slug}`,
+          type: "system-article",
+          slug: a.slug,
+          title: a.name[locale],
+          description: a.description?.[locale] || "",
+          keywords: a.keywords[locale],
+          route: a.route,
+        });
+      }
+    }
+
+    // Body chunks go last — they're matched after titles and keywords
+    for (const entry of entries.filter((e) => ARTICLE_TYPES.has(e.type))) {
+      // Compiled system pages are keyed by slug, not the configured route
+      const page = pageOf(locale, entry.type === "system-article" ? `/${entry.slug}` : entry.route);
+      if (page) entries.push(...bodyEntries(entry, page));
+    }
+
+    indexes[locale] = entries;
+  }
+
+  return indexes;
+}
+
+/**
+ * Write one prebuilt index file per locale plus search-meta.json. The
+ * meta file is written last — its hash is what clients use to pick up a
+ * new index.
+ */
+export async function writeSearchIndexes(
+  searchIndexes: Record<string, SearchEntry[]>
+): Promise<string> {
+  const searchHash = createHash("sha256")
+    .update(JSON.stringify([SEARCH_INDEX_VERSION, searchIndexes]))
+    .digest("hex")
+    .slice(0, 12);
+
+  for (const locale of LOCALES) {
+    const indexPath = path.join(
+      BUILD_DIR,
+      `search-index-${locale}.json`
+    );
+    await writeJson(indexPath, await buildSearchIndex(searchIndexes[locale]));
+    log(
+      `${locale}: ${searchIndexes[locale].length} entries → search-index-${locale}.json`
+    );
+  }
+
+  // Search meta
+  await writeJsonAtomic(path.join(BUILD_DIR, "search-meta.json"), {
+    hash: searchHash,
+    generatedAt: new Date().toISOString(),
+  });
+
+  return searchHash;
+}
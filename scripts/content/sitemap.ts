@@ -0,0 +1,153 @@
+/**
+ * Step 11: Sitemaps and robots.txt.
+ *
+ * One sitemap per locale plus an index, generated from the manifest. The
+ * site serves every locale from the same path, so a locale's URL carries
+ * `?lang=<locale>` (proxy.ts turns it into the locale cookie) and the
+ * bare path is the x-default. Each entry lists hreflang alternates for
+ * the locales the page exists in, and `lastmod` from that translation's
+ * `updated` (or `created`) date. Written to .content-build/sitemap/;
+ * next.config.ts copies it to the site root.
+ */
+
+import path from "path";
+import { LOCALES, type ContentManifest, type Locale } from "@wikipefia/mdx-compiler";
+import type { TranslationReport } from "./translations.ts";
+import { articleRoute } from "./compile.ts";
+import {
+  BUILD_DIR,
+  SITE_URL,
+  escapeXml,
+  languageTag,
+  localeUrl,
+  log,
+  writeText,
+} from "./utils.ts";
+
+export const SITEMAP_DIR = path.join(BUILD_DIR, "sitemap");
+
+/** Pages outside the content repos, available in every locale. */
+const STATIC_ROUTES = ["/", "/explore"];
+
+interface SitemapPage {
+  route: string;
+  locales: Locale[];
+  /** lastmod per locale, as YYYY-MM-DD. */
+  dates: Partial<Record<Locale, string>>;
+}
+
+function isoDate(date: string | undefined): string | undefined {
+  if (!date || Number.isNaN(Date.parse(date))) return undefined;
+  return new Date(date).toISOString().slice(0, 10);
+}
+
+function latest(dates: (string | undefined)[]): string | undefined {
+  return dates.filter((d) => d !== undefined).sort().at(-1);
+}
+
+/** Every page with the locales it is served in and their dates. */
+function collectPages(manifest: ContentManifest, translations: TranslationReport): SitemapPage[] {
+  const dateOf = new Map(
+    translations.articles.map((a) => [
+      a.route,
+      Object.fromEntries(LOCALES.map((l) => [l, isoDate(a.locales[l].date)])),
+    ])
+  );
+  const pages: SitemapPage[] = STATIC_ROUTES.map((route) => ({
+    route,
+    locales: [...LOCALES],
+    dates: {},
+  }));
+
+  const entities = [...Object.values(manifest.subjects), ...Object.values(manifest.teachers)];
+  for (const entity of entities) {
+    const entityRoute = `/${entity.config.slug}`;
+    const articleRoutes = Object.keys(entity.articles)
+      .filter((slug) => slug !== "_front")
+      .map((slug) => articleRoute(entity.config.slug, slug));
+
+    // Entity pages render in every locale; without a _front article they
+    // change whenever one of their articles does
+    const dates: SitemapPage["dates"] = {};
+    for (const locale of LOCALES) {
+      dates[locale] =
+        dateOf.get(entityRoute)?.[locale] ??
+        latest(articleRoutes.map((route) => dateOf.get(route)?.[locale]));
+    }
+    pages.push({ route: entityRoute, locales: [...LOCALES], dates });
+
+    for (const [slug, article] of Object.entries(entity.articles)) {
+      if (slug === "_front") continue;
+      const route = articleRoute(entity.config.slug, slug);
+      pages.push({ route, locales: article.locales, dates: dateOf.get(route) ?? {} });
+    }
+  }
+
+  for (const [slug, article] of Object.entries(manifest.systemArticles)) {
+    const route = `/${slug}`;
+    pages.push({ route, locales: article.locales, dates: dateOf.get(route) ?? {} });
+  }
+
+  return pages;
+}
+
+function renderSitemap(locale: Locale, pages: SitemapPage[]): string {
+  const urls = pages
+    .filter((page) => page.locales.includes(locale))
+    .map((page) => {
+      const lines = [`    <loc>${escapeXml(localeUrl(page.route, locale))}</loc>`];
+      const lastmod = page.dates[locale];
+      if (lastmod) lines.push(`    <lastmod>${lastmod}</lastmod>`);
+      for (const alt of page.locales) {
+        lines.push(
+          `    <xhtml:link rel="alternate" hreflang="${languageTag(alt)}" href="${escapeXml(localeUrl(page.route, alt))}"/>`
+        );
+      }
+      lines.push(
+        `    <xhtml:link rel="alternate" hreflang="x-default" href="${escapeXml(SITE_URL + page.route)}"/>`
+      );
+      return `  <url>\n${lines.join("\n")}\n  </url>`;
+    });
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml">`,
+    ...urls,
+    `</urlset>`,
+    "",
+  ].join("\n");
+}
+
+function renderIndex(lastmod: string): string {
+  const sitemaps = LOCALES.map(
+    (locale) =>
+      `  <sitemap>\n    <loc>${escapeXml(`${SITE_URL}/sitemap-${locale}.xml`)}</loc>\n    <lastmod>${lastmod}</lastmod>\n  </sitemap>`
+  );
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">`,
+    ...sitemaps,
+    `</sitemapindex>`,
+    "",
+  ].join("\n");
+}
+
+function renderRobots(): string {
+  return ["User-agent: *", "Allow: /", "Disallow: /api/", "", `Sitemap: ${SITE_URL}/sitemap.xml`, ""].join(
+    "\n"
+  );
+}
+
+export async function writeSitemaps(manifest: ContentManifest, translations: TranslationReport) {
+  if (!process.env.SITE_URL) log(`SITE_URL is not set — sitemap URLs point at ${SITE_URL}.`);
+  const pages = collectPages(manifest, translations);
+
+  for (const locale of LOCALES) {
+    await writeText(path.join(SITEMAP_DIR, `sitemap-${locale}.xml`), renderSitemap(locale, pages));
+  }
+  await writeText(path.join(SITEMAP_DIR, "sitemap.xml"), renderIndex(manifest.buildTime));
+  await writeText(path.join(SITEMAP_DIR, "robots.txt"), renderRobots());
+
+  const counts = LOCALES.map((l) => `${l}: ${pages.filter((p) => p.locales.includes(l)).length}`);
+  log(`Sitemaps written (${counts.join(", ")} URL(s)).`);
+}
@@ -0,0 +1,214 @@
+/**
+ * Step 10: Translation coverage report.
+ *
+ * For every article, compares each locale against its source locale — the
+ * one readers fall back to (en, then ru, see resolveLocale()). A
+ * translation is stale when the source's `updated` (or `created`) date is
+ * later than its own. Written to .content-build/translations.json and
+ * shared with the content:translations command.
+ */
+
+import { readFile } from "fs/promises";
+import { existsSync } from "fs";
+import path from "path";
+import matter from "gray-matter";
+import { LOCALES, type Locale } from "@wikipefia/mdx-compiler";
+import type { LoadedSubject, LoadedTeacher, LoadedSystem } from "./load.ts";
+import { articleRoute } from "./compile.ts";
+import { BUILD_DIR, ROOT, listFiles, log, print, writeJson } from "./utils.ts";
+
+export const TRANSLATIONS_PATH = path.join(BUILD_DIR, "translations.json");
+
+export type TranslationStatus = "source" | "current" | "stale" | "missing";
+
+export interface LocaleTranslation {
+  status: TranslationStatus;
+  /** Path relative to the repo root; absent when missing. */
+  file?: string;
+  /** The file's `updated` date, or `created` if it was never updated. */
+  date?: string;
+}
+
+export interface ArticleTranslations {
+  /** URL the article is served at, e.g. /discrete-math/graphs. */
+  route: string;
+  source: Locale;
+  locales: Record<Locale, LocaleTranslation>;
+}
+
+export interface TranslationReport {
+  summary: Record<Locale, Record<TranslationStatus, number>>;
+  articles: ArticleTranslations[];
+}
+
+/** One locale of one article, as found on disk. */
+interface TranslationFile {
+  route: string;
+  locale: Locale;
+  file: string;
+  date?: string;
+}
+
+/** YAML turns unquoted dates into Date objects; the schema wants strings. */
+function frontmatterDate(value: unknown): string | undefined {
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  return typeof value === "string" ? value : undefined;
+}
+
+async function readTranslationFile(
+  filePath: string,
+  locale: Locale,
+  route: (data: Record<string, unknown>) => string
+): Promise<TranslationFile | null> {
+  let data: Record<string, unknown>;
+  try {
+    data = matter(await readFile(filePath, "utf-8")).data;
+  } catch {
+    // Broken frontmatter is reported by the build itself
+    return null;
+  }
+  return {
+    route: route(data),
+    locale,
+    file: path.relative(ROOT, filePath),
+    date: frontmatterDate(data.updated) ?? frontmatterDate(data.created),
+  };
+}
+
+/**
+ * Read the locale and date of every article file. Only frontmatter is
+ * parsed, so this is cheap enough to run without a full build.
+ */
+export async function collectTranslationFiles(
+  subjects: LoadedSubject[],
+  teachers: LoadedTeacher[],
+  system: LoadedSystem | null
+): Promise<TranslationFile[]> {
+  const files: TranslationFile[] = [];
+  const entities = [
+    ...subjects.map((s) => ({ slug: s.config.slug, dir: s.dir })),
+    ...teachers.map((t) => ({ slug: t.config.slug, dir: t.dir })),
+  ];
+
+  for (const entity of entities) {
+    for (const locale of LOCALES) {
+      const localeDir = path.join(entity.dir, "articles", locale);
+      if (!existsSync(localeDir)) continue;
+      for (const name of await listFiles(localeDir, ".mdx")) {
+        const fileSlug = path.basename(name, ".mdx");
+        const file = await readTranslationFile(path.join(localeDir, name), locale, (data) => {
+          const slug = typeof data.slug === "string" ? data.slug : fileSlug;
+          return articleRoute(entity.slug, slug);
+        });
+        if (file) files.push(file);
+      }
+    }
+  }
+
+  for (const article of system?.config.articles ?? []) {
+    for (const locale of LOCALES) {
+      const filePath = path.join(system!.dir, "articles", locale, `${article.slug}.mdx`);
+      if (!existsSync(filePath)) continue;
+      const file = await readTranslationFile(filePath, locale, () => `/${article.slug}`);
+      if (file) files.push(file);
+    }
+  }
+
+  return files;
+}
+
+/** Mirrors the fallback in resolveLocale() (lib/i18n/helpers.ts). */
+function sourceLocale(available: Locale[]): Locale {
+  if (available.includes("en")) return "en";
+  if (available.includes("ru")) return "ru";
+  return available[0];
+}
+
+function isOlder(date: string | undefined, than: string | undefined): boolean {
+  const a = date ? Date.parse(date) : NaN;
+  const b = than ? Date.parse(than) : NaN;
+  // Unknown dates can't be compared — don't guess
+  return !Number.isNaN(a) && !Number.isNaN(b) && a < b;
+}
+
+export function buildTranslationReport(files: TranslationFile[]): TranslationReport {
+  const byRoute = new Map<string, Map<Locale, TranslationFile>>();
+  for (const file of files) {
+    if (!byRoute.has(file.route)) byRoute.set(file.route, new Map());
+    byRoute.get(file.route)!.set(file.locale, file);
+  }
+
+  const summary = Object.fromEntries(
+    LOCALES.map((l) => [l, { source: 0, current: 0, stale: 0, missing: 0 }])
+  ) as TranslationReport["summary"];
+
+  const articles = [...byRoute.keys()].sort().map((route): ArticleTranslations => {
+    const found = byRoute.get(route)!;
+    const source = sourceLocale([...found.keys()]);
+    const sourceDate = found.get(source)!.date;
+
+    const locales = {} as Record<Locale, LocaleTranslation>;
+    for (const locale of LOCALES) {
+      const file = found.get(locale);
+      let status: TranslationStatus;
+      if (!file) status = "missing";
+      else if (locale === source) status = "source";
+      else status = isOlder(file.date, sourceDate) ? "stale" : "current";
+      locales[locale] = { status, file: file?.file, date: file?.date };
+      summary[locale][status]++;
+    }
+    return { route, source, locales };
+  });
+
+  return { summary, articles };
+}
+
+export async function writeTranslationReport(report: TranslationReport) {
+  await writeJson(TRANSLATIONS_PATH, report);
+}
+
+/** One line per locale — the build prints this, the command adds the table. */
+export function printTranslationSummary(report: TranslationReport) {
+  const total = report.articles.length;
+  for (const locale of LOCALES) {
+    const s = report.summary[locale];
+    const present = s.source + s.current + s.stale;
+    log(
+      `${locale}: ${present}/${total} article(s)` +
+        (s.stale > 0 ? `, ${s.stale} stale` : "") +
+        (s.missing > 0 ? `, ${s.missing} missing` : "")
+    );
+  }
+}
+
+const STATUS_LABELS: Record<TranslationStatus, string> = {
+  source: "● source",
+  current: "✓",
+  stale: "~ stale",
+  missing: "✗ missing",
+};
+
+/**
+ * Article × locale matrix. Only articles with work left are listed
+ * unless `all` is set.
+ */
+export function printTranslationTable(report: TranslationReport, all = false) {
+  const rows = report.articles.filter(
+    (a) => all || LOCALES.some((l) => a.locales[l].status === "stale" || a.locales[l].status === "missing")
+  );
+  if (rows.length === 0) {
+    log("Every article is translated and up to date.");
+    return;
+  }
+
+  const routeWidth = Math.max("Article".length, ...rows.map((a) => a.route.length));
+  const cellWidth = Math.max(...Object.values(STATUS_LABELS).map((l) => l.length));
+  const line = (first: string, cells: string[]) =>
+    `  ${first.padEnd(routeWidth)}  ${cells.map((c) => c.padEnd(cellWidth)).join("  ")}`.trimEnd();
+
+  print(line("Article", [...LOCALES]));
+  print(line("-".repeat(routeWidth), LOCALES.map(() => "-".repeat(cellWidth))));
+  for (const article of rows) {
+    print(line(article.route, LOCALES.map((l) => STATUS_LABELS[article.locales[l].status])));
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * Shared constants and helpers for the content build scripts.
+ */
+
+import { readFile, writeFile, mkdir, readdir, rename } from "fs/promises";
+import { existsSync } from "fs";
+import path from "path";
+
+// ── Constants ──────────────────────────────────────────
+
+export const ROOT = process.cwd();
+export const CONTENT_DIR = path.join(ROOT, "content");
+export const BUILD_DIR = path.join(ROOT, ".content-build");
+export const CACHE_DIR = path.join(BUILD_DIR, ".cache");
+
+export const RESERVED_SLUGS = ["api", "_next", "not-found", "search", "assets", "feeds"];
+
+/** Public origin for absolute URLs in sitemaps and feeds. */
+export const SITE_URL = (process.env.SITE_URL ?? "http://localhost:3000").replace(/\/+$/, "");
+
+/**
+ * Absolute URL of a page in one locale. Every locale is served from the
+ * same path; `?lang=` selects it (see proxy.ts).
+ */
+export function localeUrl(route: string, locale: string): string {
+  return `${SITE_URL}${route}?lang=${locale}`;
+}
+
+/**
+ * BCP 47 tag for hreflang and xml:lang — our "cz" is Czech, "cs".
+ * Mirrors languageTag() in lib/i18n/helpers.ts.
+ */
+export function languageTag(locale: string): string {
+  return locale === "cz" ? "cs" : locale;
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// ── Errors ─────────────────────────────────────────────
+
+/**
+ * Thrown when content fails validation. Details have already been logged
+ * by the time it is thrown — callers only decide whether to stop
+ * (build-content) or keep going (watch-content).
+ */
+export class ContentBuildError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ContentBuildError";
+  }
+}
+
+// ── CLI Options ────────────────────────────────────────
+
+export function getArgValue(name: string): string | undefined {
+  const args = process.argv.slice(2);
+  const idx = args.indexOf(name);
+  if (idx !== -1) return args[idx + 1];
+  const inline = args.find((a) => a.startsWith(`${name}=`));
+  return inline?.slice(name.length + 1);
+}
+
+// ── Logging ────────────────────────────────────────────
+
+/**
+ * Progress output. With --format, stdout is reserved for the
+ * machine-readable diagnostics, so everything else goes to stderr.
+ */
+export function print(msg: string) {
+  if (getArgValue("--format")) console.error(msg);
+  else console.log(msg);
+}
+
+export function log(msg: string) {
+  print(`  ${msg}`);
+}
+
+export function logSection(msg: string) {
+  print(`\n▸ ${msg}`);
+}
+
+export function logError(msg: string) {
+  console.error(`  ✗ ${msg}`);
+}
+
+// ── File System ────────────────────────────────────────
+
+export async function ensureDir(dir: string) {
+  await mkdir(dir, { recursive: true });
+}
+
+export async function readJson(filePath: string): Promise<unknown> {
+  const raw = await readFile(filePath, "utf-8");
+  return JSON.parse(raw);
+}
+
+export async function writeJson(filePath: string, data: unknown) {
+  await ensureDir(path.dirname(filePath));
+  await writeFile(filePath, JSON.stringify(data, null, 2), "utf-8");
+}
+
+/**
+ * Write JSON via a temp file + rename, so a running dev server never
+ * reads a half-written file.
+ */
+export async function writeJsonAtomic(filePath: string, data: unknown) {
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  await writeJson(tmpPath, data);
+  await rename(tmpPath, filePath);
+}
+
+export async function writeText(filePath: string, data: string) {
+  await ensureDir(path.dirname(filePath));
+  await writeFile(filePath, data, "utf-8");
+}
+
+export async function listDirs(dir: string): Promise<string[]> {
+  if (!existsSync(dir)) return [];
+  const entries = await readdir(dir, { withFileTypes: true });
+  return entries.filter((e) => e.isDirectory()).map((e) => e.name);
+}
+
+export async function listFiles(dir: string, ext?: string): Promise<string[]> {
+  if (!existsSync(dir)) return [];
+  const entries = await readdir(dir, { withFileTypes: true });
+  return entries
+    .filter((e) => e.isFile() && (!ext || e.name.endsWith(ext)))
+    .map((e) => e.name);
+}
@@ -11,7 +11,9 @@
  *   - system:   Single repo containing system articles
  *
  * In CI (GITHUB_ACTIONS=true): uses GitHub API tarball download.
- * Locally: uses git clone --depth 1.
+ * Locally: uses a blobless git clone, so the build can read each file's
+ * history (last-modified dates and contributors) without downloading
+ * every old revision.
  */
 
 import { readFile, mkdir, rm, cp } from "fs/promises";
@@ -86,7 +88,7 @@ async function pullSource(
         `wikipefia-clone-${Date.now()}`
       );
       execSync(
-        `git clone --depth 1 --branch ${source.branch} https://github.com/${source.repo}.git "${tmpDir}"`,
+        `git clone --filter=blob:none --branch ${source.branch} https://github.com/${source.repo}.git "${tmpDir}"`,
         { stdio: "pipe" }
       );
 
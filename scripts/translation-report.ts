@@ -0,0 +1,49 @@
+#!/usr/bin/env tsx
+/**
+ * translation-report.ts — Which translations are missing or stale.
+ *
+ * Prints an article × locale table of everything translators still need
+ * to work on (--all lists every article) and writes the same report to
+ * .content-build/translations.json. Only frontmatter is read, so it runs
+ * in a second without a content build.
+ *
+ * Run: pnpm content:translations [--all]
+ */
+
+import path from "path";
+import { ROOT, logSection } from "./content/utils.ts";
+import { loadSubjects, loadTeachers, loadSystem } from "./content/load.ts";
+import { buildErrors } from "./content/report.ts";
+import {
+  TRANSLATIONS_PATH,
+  buildTranslationReport,
+  collectTranslationFiles,
+  printTranslationSummary,
+  printTranslationTable,
+  writeTranslationReport,
+} from "./content/translations.ts";
+
+async function main() {
+  const subjects = await loadSubjects();
+  const teachers = await loadTeachers();
+  const system = await loadSystem();
+
+  // Entities with broken configs are left out of the report
+  if (buildErrors.count > 0) buildErrors.print();
+
+  const report = buildTranslationReport(
+    await collectTranslationFiles(subjects, teachers, system)
+  );
+  await writeTranslationReport(report);
+
+  logSection(`Translation coverage (${report.articles.length} article(s))`);
+  printTranslationSummary(report);
+  logSection(process.argv.includes("--all") ? "All articles" : "Work left");
+  printTranslationTable(report, process.argv.includes("--all"));
+  console.log(`\n  Written to ${path.relative(ROOT, TRANSLATIONS_PATH)}\n`);
+}
+
+main().catch((err) => {
+  console.error("\n✗ Translation report failed:", err);
+  process.exit(1);
+});
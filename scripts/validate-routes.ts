@@ -12,7 +12,7 @@ import path from "path";
 
 const ROOT = process.cwd();
 const CONTENT_DIR = path.join(ROOT, "content");
-const RESERVED_SLUGS = ["api", "_next", "not-found", "search"];
+const RESERVED_SLUGS = ["api", "_next", "not-found", "search", "assets", "feeds"];
 
 async function main() {
   console.log("\n▸ Validating routes (flat namespace)...\n");
@@ -0,0 +1,481 @@
+#!/usr/bin/env tsx
+/**
+ * watch-content.ts — Incremental content rebuilds for local development.
+ *
+ * Runs the build pipeline once, then watches content/ and, for each batch
+ * of changes, reloads only the touched entity configs and re-processes
+ * only the touched entities' articles (unchanged files are compile-cache
+ * hits). The manifest shards, search indexes and assets are rewritten
+ * after every batch; the app's loader notices the new manifest index on
+ * the next request, so a browser refresh shows the change.
+ *
+ * Run alongside `pnpm dev`: pnpm content:watch
+ */
+
+import { watch, existsSync, readdirSync, statSync, type Dirent, type FSWatcher } from "fs";
+import { readdir, rm, copyFile, mkdir } from "fs/promises";
+import path from "path";
+import { LOCALES } from "@wikipefia/mdx-compiler";
+
+import {
+  BUILD_DIR,
+  CACHE_DIR,
+  CONTENT_DIR,
+  ROOT,
+  ContentBuildError,
+  ensureDir,
+  log,
+  logError,
+  logSection,
+} from "./content/utils.ts";
+import {
+  loadSubject,
+  loadTeacher,
+  loadSystem,
+  type LoadedSubject,
+  type LoadedTeacher,
+  type LoadedSystem,
+} from "./content/load.ts";
+import { validateRoutes } from "./content/routes.ts";
+import {
+  getCompilePool,
+  completeCompileJobs,
+  processArticles,
+  processSystemArticles,
+  type ArticleFile,
+  type ArticleMap,
+  type CompiledPage,
+  type SystemArticleMap,
+} from "./content/compile.ts";
+import { buildErrors } from "./content/report.ts";
+import { validateReferences } from "./content/references.ts";
+import { buildPrerequisiteGraph, validatePrerequisites } from "./content/prerequisites.ts";
+import { resolveBacklinks, validateLinks } from "./content/links.ts";
+import { ASSETS_DIR, resolveAssets } from "./content/assets.ts";
+import { readHistory } from "./content/history.ts";
+import { generateSearchIndexes, writeSearchIndexes } from "./content/search.ts";
+import { buildManifest, writeManifest } from "./content/manifest.ts";
+
+const DEBOUNCE_MS = 150;
+const PUBLIC_SEARCH_DIR = path.join(ROOT, "public", "search");
+const PUBLIC_ASSETS_DIR = path.join(ROOT, "public", "assets");
+
+// ── State ──────────────────────────────────────────────
+
+/** Loaded entities keyed by directory name (not slug — a config may rename it). */
+const subjects = new Map<string, LoadedSubject>();
+const teachers = new Map<string, LoadedTeacher>();
+let system: LoadedSystem | null = null;
+
+/** Article data keyed by entity slug, as consumed by buildManifest. */
+const subjectArticleData: Record<string, ArticleMap> = {};
+const teacherArticleData: Record<string, ArticleMap> = {};
+let systemArticleData: SystemArticleMap = {};
+
+/** Per-file frontmatter for cross-reference checks, keyed by "<kind>/<dir>". */
+const articleFiles = new Map<string, ArticleFile[]>();
+/** Headings and links for link checks, keyed like articleFiles ("system" for system). */
+const compiledPages = new Map<string, CompiledPage[]>();
+
+// ── Change classification ──────────────────────────────
+
+interface EntityChange {
+  kind: "subjects" | "teachers" | "system";
+  /** Directory name under content/<kind>/ (empty for system). */
+  dir: string;
+  configChanged: boolean;
+  articlesChanged: boolean;
+}
+
+/**
+ * Group raw changed paths (relative to content/) by the entity they belong to.
+ * Paths outside a known entity layout are ignored.
+ */
+function classifyChanges(changed: Iterable<string>): EntityChange[] {
+  const byEntity = new Map<string, EntityChange>();
+
+  for (const rel of changed) {
+    const parts = rel.split(path.sep);
+    if (parts.some(isIgnored)) continue;
+
+    let change: EntityChange;
+    let rest: string[];
+    if (parts[0] === "system") {
+      change = { kind: "system", dir: "", configChanged: false, articlesChanged: false };
+      rest = parts.slice(1);
+    } else if ((parts[0] === "subjects" || parts[0] === "teachers") && parts[1]) {
+      change = { kind: parts[0], dir: parts[1], configChanged: false, articlesChanged: false };
+      rest = parts.slice(2);
+    } else {
+      continue;
+    }
+
+    const key = `${change.kind}/${change.dir}`;
+    const entry = byEntity.get(key) ?? change;
+    byEntity.set(key, entry);
+
+    if (rest.length === 0) {
+      // The entity directory itself was added or removed
+      entry.configChanged = true;
+      entry.articlesChanged = true;
+    } else if (rest[0] === "config.json") {
+      entry.configChanged = true;
+    } else {
+      // Articles, or images they reference — rechecking is all cache hits
+      entry.articlesChanged = true;
+    }
+  }
+
+  return [...byEntity.values()].filter(
+    (c) => c.configChanged || c.articlesChanged
+  );
+}
+
+// ── Incremental updates ────────────────────────────────
+
+/** Delete compiled output for (article, locale) pairs that no longer exist. */
+async function removeStaleOutputs(
+  before: ArticleMap | SystemArticleMap,
+  after: ArticleMap | SystemArticleMap
+) {
+  for (const [slug, article] of Object.entries(before)) {
+    for (const locale of article.locales) {
+      if (after[slug]?.locales.includes(locale)) continue;
+      for (const template of [article.compiledPath, article.tocPath]) {
+        await rm(path.join(BUILD_DIR, template.replace("{locale}", locale)), {
+          force: true,
+        });
+      }
+      log(`Removed ${slug} (${locale})`);
+    }
+  }
+}
+
+/**
+ * Reload one entity. If that records any errors, the previous state is
+ * kept so the last good manifest stays consistent until the fix lands.
+ */
+async function updateEntity(change: EntityChange) {
+  const errorsBefore = buildErrors.count;
+
+  if (change.kind === "system") {
+    const before = systemArticleData;
+    const loaded = await loadSystem();
+    if (buildErrors.count > errorsBefore) return;
+
+    let after: SystemArticleMap = {};
+    let pages: CompiledPage[] = [];
+    if (loaded) {
+      const { articles, jobs } = await processSystemArticles(loaded);
+      pages = await completeCompileJobs(jobs);
+      after = articles;
+    }
+    if (buildErrors.count > errorsBefore) return;
+
+    system = loaded;
+    systemArticleData = after;
+    compiledPages.set("system", pages);
+    await removeStaleOutputs(before, after);
+    return;
+  }
+
+  const isSubject = change.kind === "subjects";
+  const entities: Map<string, LoadedSubject | LoadedTeacher> = isSubject
+    ? subjects
+    : teachers;
+  const articleData = isSubject ? subjectArticleData : teacherArticleData;
+  const dir = path.join(CONTENT_DIR, change.kind, change.dir);
+  const key = `${change.kind}/${change.dir}`;
+
+  const previous = entities.get(change.dir);
+  let current = previous;
+
+  if (change.configChanged || !previous) {
+    current = existsSync(dir)
+      ? ((isSubject ? await loadSubject(dir) : await loadTeacher(dir)) ?? undefined)
+      : undefined;
+    if (buildErrors.count > errorsBefore) return;
+  }
+
+  const before: ArticleMap = previous ? articleData[previous.config.slug] ?? {} : {};
+  let after: ArticleMap = before;
+  let files = articleFiles.get(key) ?? [];
+  let pages = compiledPages.get(key) ?? [];
+
+  if (current && (change.articlesChanged || current !== previous)) {
+    const result = await processArticles(
+      path.join(dir, "articles"),
+      current.config.slug,
+      change.kind
+    );
+    pages = await completeCompileJobs(result.jobs);
+    after = result.articles;
+    files = result.files;
+    if (buildErrors.count > errorsBefore) return;
+  }
+
+  if (previous) delete articleData[previous.config.slug];
+  if (current) {
+    entities.set(change.dir, current);
+    articleData[current.config.slug] = after;
+    articleFiles.set(key, files);
+    compiledPages.set(key, pages);
+  } else {
+    entities.delete(change.dir);
+    articleFiles.delete(key);
+    compiledPages.delete(key);
+  }
+
+  // A slug rename moves every output path, so everything under the old one is stale
+  await removeStaleOutputs(
+    before,
+    current && previous && current.config.slug === previous.config.slug ? after : {}
+  );
+}
+
+/** Mirror of copySearchIndexes() in next.config.ts, for a running dev server. */
+async function publishSearchIndexes(hash: string) {
+  await mkdir(PUBLIC_SEARCH_DIR, { recursive: true });
+  for (const locale of LOCALES) {
+    const src = path.join(BUILD_DIR, `search-index-${locale}.json`);
+    if (existsSync(src)) {
+      await copyFile(src, path.join(PUBLIC_SEARCH_DIR, `index-${locale}-${hash}.json`));
+    }
+  }
+  await copyFile(
+    path.join(BUILD_DIR, "search-meta.json"),
+    path.join(PUBLIC_SEARCH_DIR, "meta.json")
+  );
+}
+
+/** Mirror of copyContentAssets() in next.config.ts. Names are content-hashed, so existing files are current. */
+async function publishAssets() {
+  if (!existsSync(ASSETS_DIR)) return;
+  await mkdir(PUBLIC_ASSETS_DIR, { recursive: true });
+  for (const name of await readdir(ASSETS_DIR)) {
+    const dest = path.join(PUBLIC_ASSETS_DIR, name);
+    if (!existsSync(dest)) await copyFile(path.join(ASSETS_DIR, name), dest);
+  }
+}
+
+/**
+ * Validate the whole content set and regenerate everything derived from
+ * it. Throws ContentBuildError, after printing the report, if any step
+ * of the batch recorded errors.
+ */
+async function writeDerivedOutputs() {
+  const subjectList = [...subjects.values()];
+  const teacherList = [...teachers.values()];
+  const slugRegistry = validateRoutes(subjectList, teacherList, system);
+  const prerequisites = buildPrerequisiteGraph([...articleFiles.values()].flat());
+  if (buildErrors.count === 0) {
+    validateReferences(
+      subjectList,
+      teacherList,
+      subjectArticleData,
+      teacherArticleData,
+      [...articleFiles.values()].flat()
+    );
+    validatePrerequisites(prerequisites);
+  }
+  if (buildErrors.count === 0) {
+    await validateLinks(slugRegistry, [...compiledPages.values()].flat());
+  }
+  const assets = await resolveAssets([...compiledPages.values()].flat(), teacherList);
+  if (buildErrors.count > 0) {
+    buildErrors.print();
+    throw new ContentBuildError(`${buildErrors.count} error(s)`);
+  }
+
+  const searchIndexes = generateSearchIndexes(
+    subjectList,
+    teacherList,
+    system,
+    subjectArticleData,
+    teacherArticleData,
+    [...compiledPages.values()].flat()
+  );
+  const searchHash = await writeSearchIndexes(searchIndexes);
+  await publishSearchIndexes(searchHash);
+  await publishAssets();
+
+  const manifest = buildManifest(
+    subjectList,
+    teacherList,
+    system,
+    subjectArticleData,
+    teacherArticleData,
+    systemArticleData,
+    assets,
+    await readHistory([...articleFiles.values()].flat()),
+    resolveBacklinks([...compiledPages.values()].flat()),
+    prerequisites,
+    slugRegistry
+  );
+  await writeManifest(manifest);
+}
+
+function reportFailure(err: unknown) {
+  if (err instanceof ContentBuildError) {
+    // The report was already printed
+    logError("Update failed — fix the error above and save again.");
+  } else {
+    logError(`Update failed: ${err instanceof Error ? err.stack : err}`);
+  }
+}
+
+// ── File watching ──────────────────────────────────────
+
+function isIgnored(name: string): boolean {
+  return name.startsWith(".") || name === "node_modules";
+}
+
+/**
+ * Watch every directory under root individually. `fs.watch(root, { recursive })`
+ * loses track of files that editors save by writing a temp file and renaming
+ * it over the original; a directory watch still sees the rename.
+ */
+function watchTree(root: string, onChange: (relPath: string) => void) {
+  const watchers = new Map<string, FSWatcher>();
+
+  function addDir(dir: string) {
+    if (watchers.has(dir)) return;
+    const watcher = watch(dir, (_event, filename) => {
+      if (!filename) return;
+      const fullPath = path.join(dir, filename.toString());
+      onChange(path.relative(root, fullPath));
+      // A rename-on-save or a git checkout can remove the file at any
+      // moment, and a throw here would end the watcher
+      const stats = statSync(fullPath, { throwIfNoEntry: false });
+      if (!stats) {
+        watchers.get(fullPath)?.close();
+        watchers.delete(fullPath);
+      } else if (stats.isDirectory() && !isIgnored(filename.toString())) {
+        addTree(fullPath);
+      }
+    });
+    // Removed directories error out on some platforms — just drop them
+    watcher.on("error", () => {
+      watcher.close();
+      watchers.delete(dir);
+    });
+    watchers.set(dir, watcher);
+  }
+
+  function addTree(dir: string) {
+    let entries: Dirent[];
+    try {
+      addDir(dir);
+      entries = readdirSync(dir, { withFileTypes: true });
+    } catch {
+      // Removed again before we got to it
+      return;
+    }
+    for (const entry of entries) {
+      if (entry.isDirectory() && !isIgnored(entry.name)) {
+        addTree(path.join(dir, entry.name));
+      }
+    }
+  }
+
+  addTree(root);
+}
+
+// ── Main ───────────────────────────────────────────────
+
+async function initialBuild() {
+  logSection("Initial build...");
+  buildErrors.reset();
+  const changes: EntityChange[] = [];
+  for (const kind of ["subjects", "teachers"] as const) {
+    const kindDir = path.join(CONTENT_DIR, kind);
+    if (!existsSync(kindDir)) continue;
+    for (const entry of await readdir(kindDir, { withFileTypes: true })) {
+      if (entry.isDirectory()) {
+        changes.push({ kind, dir: entry.name, configChanged: true, articlesChanged: true });
+      }
+    }
+  }
+  changes.push({ kind: "system", dir: "", configChanged: true, articlesChanged: true });
+
+  for (const change of changes) {
+    await updateEntity(change);
+  }
+  await writeDerivedOutputs();
+}
+
+async function main() {
+  const compilePool = getCompilePool();
+
+  console.log("\n╔══════════════════════════════════════╗");
+  console.log("║   WIKIPEFIA CONTENT WATCH            ║");
+  console.log("╚══════════════════════════════════════╝");
+
+  if (!existsSync(CONTENT_DIR)) {
+    logError(`Content directory not found: ${CONTENT_DIR}`);
+    logError("Run `pnpm content:pull` first.");
+    process.exit(1);
+  }
+
+  await ensureDir(CACHE_DIR);
+
+  try {
+    await initialBuild();
+  } catch (err) {
+    reportFailure(err);
+  }
+
+  const pending = new Set<string>();
+  let timer: NodeJS.Timeout | null = null;
+  let running = false;
+
+  async function flush() {
+    timer = null;
+    if (running) return;
+    running = true;
+
+    while (pending.size > 0) {
+      const batch = [...pending];
+      pending.clear();
+
+      const changes = classifyChanges(batch);
+      if (changes.length === 0) continue;
+
+      const startTime = Date.now();
+      buildErrors.reset();
+      logSection(
+        `Changed: ${changes.map((c) => (c.kind === "system" ? "system" : `${c.kind}/${c.dir}`)).join(", ")}`
+      );
+      try {
+        for (const change of changes) {
+          await updateEntity(change);
+        }
+        await writeDerivedOutputs();
+        const elapsed = ((Date.now() - startTime) / 1000).toFixed(2);
+        console.log(`✓ Updated in ${elapsed}s`);
+      } catch (err) {
+        reportFailure(err);
+      }
+    }
+
+    running = false;
+  }
+
+  watchTree(CONTENT_DIR, (relPath) => {
+    pending.add(relPath);
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(flush, DEBOUNCE_MS);
+  });
+
+  console.log(`\n◉ Watching ${path.relative(ROOT, CONTENT_DIR)}/ for changes (Ctrl+C to stop)`);
+
+  process.on("SIGINT", async () => {
+    await compilePool.close();
+    process.exit(0);
+  });
+}
+
+main().catch((err) => {
+  console.error("\n✗ Watch failed:", err);
+  process.exit(1);
+});